@@ -0,0 +1,68 @@
+import type { Buffer } from 'node:buffer'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+/* eslint-disable no-console */
+import { cyan, green, red } from 'ansis'
+import { glob } from 'tinyglobby'
+
+/**
+ * Files of the `assets` option, with comma separated lists split and glob patterns expanded.
+ * Patterns without matches are kept as literal paths.
+ */
+export async function expandAssets(assets: string | string[]): Promise<string[]> {
+  let assetList: string[] = []
+  if (typeof assets === 'string') {
+    assetList = assets.split(',').map(s => s.trim()).filter(Boolean)
+  }
+  else if (Array.isArray(assets)) {
+    assetList = assets.flatMap(item =>
+      typeof item === 'string' ? item.split(',').map(s => s.trim()) : [],
+    ).filter(Boolean)
+  }
+
+  const expandedAssets: string[] = []
+  for (const pattern of assetList) {
+    try {
+      // Use the pattern directly without shell expansion
+      const matches = await glob(pattern)
+      if (matches.length) {
+        expandedAssets.push(...matches)
+      }
+      else {
+        // If no matches found, treat as literal path
+        expandedAssets.push(pattern)
+      }
+    }
+    catch (error) {
+      console.error(red(`Failed to process glob pattern "${pattern}": ${error}`))
+      // Keep the original pattern as fallback
+      expandedAssets.push(pattern)
+    }
+  }
+  return expandedAssets
+}
+
+/**
+ * Read and upload every file, a failing file is logged without stopping the others
+ */
+export async function uploadEachAsset(files: string[], upload: (fileName: string, fileData: Buffer) => Promise<void>) {
+  for (const asset of files) {
+    const filePath = path.resolve(asset)
+    try {
+      const fileData = await fs.readFile(filePath)
+      const fileName = path.basename(filePath)
+
+      console.log(cyan(`Uploading ${fileName}...`))
+      try {
+        await upload(fileName, fileData)
+        console.log(green(`Uploaded ${fileName} successfully.`))
+      }
+      catch (error) {
+        console.error(red(`Failed to upload ${fileName}: ${error}`))
+      }
+    }
+    catch (error) {
+      console.error(red(`Failed to read file ${filePath}: ${error}`))
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { ReleaseSession } from './session'
+import type { AuthType, ChangelogOptions } from './types'
+import { Buffer } from 'node:buffer'
+import { createSign } from 'node:crypto'
+import { memo } from './session'
+
+/**
+ * Thrown when an API endpoint can not be called with the configured kind of credentials
+ */
+export class AuthError extends Error {
+  readonly authType: AuthType
+
+  constructor(authType: AuthType, message: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.authType = authType
+  }
+}
+
+export function getAuthType(options: ChangelogOptions): AuthType {
+  return options.authType || (options.githubApp ? 'github-app' : 'token')
+}
+
+/**
+ * Whether credentials are configured at all, GitHub Apps do not use `token`
+ */
+export function hasAuth(options: ChangelogOptions) {
+  return !!options.token || (getAuthType(options) === 'github-app' && !!options.githubApp)
+}
+
+/**
+ * GitLab CI job tokens are only accepted by a subset of the API,
+ * fail with an actionable message instead of a bare 401/403/404
+ * https://docs.gitlab.com/ci/jobs/ci_job_token/
+ */
+export function assertJobTokenAllows(options: ChangelogOptions, action: string, hint = 'use a personal, group or project access token instead') {
+  if (getAuthType(options) === 'job-token')
+    throw new AuthError('job-token', `GitLab CI job tokens can not ${action}, ${hint}.`)
+}
+
+function base64url(input: string | Buffer) {
+  return Buffer.from(input).toString('base64url')
+}
+
+/**
+ * Short-lived JWT identifying the GitHub App itself
+ * https://docs.github.com/en/apps/creating-github-apps/authenticating-with-a-github-app/generating-a-json-web-token-jwt-for-a-github-app
+ */
+export function createAppJwt(appId: string | number, privateKey: string, now = Math.floor(Date.now() / 1000)) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+  // backdated to allow for clock drift, GitHub rejects expirations over 10 minutes
+  const payload = base64url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: String(appId) }))
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+/**
+ * Exchange the app JWT for an installation access token, once per session
+ */
+export function getGitHubAppToken(options: ChangelogOptions, session: ReleaseSession): Promise<string> {
+  return memo(session, 'github:app-token', async () => {
+    const app = options.githubApp
+    if (!app?.appId || !app.privateKey)
+      throw new AuthError('github-app', 'GitHub App authentication requires `githubApp.appId` and `githubApp.privateKey`.')
+
+    const headers = {
+      accept: 'application/vnd.github.v3+json',
+      authorization: `Bearer ${createAppJwt(app.appId, app.privateKey)}`,
+    }
+    let installationId = app.installationId
+    if (!installationId) {
+      try {
+        const installation = await session.request(`${options.baseUrlApi}/repos/${options.repo}/installation`, { headers })
+        installationId = installation.id
+      }
+      catch (error) {
+        throw new AuthError('github-app', `GitHub App ${app.appId} is not installed on ${options.repo}: ${(error as Error).message}`)
+      }
+    }
+    const data = await session.request(`${options.baseUrlApi}/app/installations/${installationId}/access_tokens`, {
+      method: 'POST',
+      headers,
+    })
+    return data.token as string
+  })
+}
@@ -0,0 +1,83 @@
+import type { AuthorInfo, ChangelogOptions, Commit } from './types'
+import { notNullish } from '@antfu/utils'
+import { loadAuthorCache, resolveCachedAuthor } from './cache'
+import { mapWithConcurrency } from './http'
+
+const excludeAuthors = [
+  /\[bot\]/i,
+  /dependabot/i,
+  /\(bot\)/i,
+]
+
+/**
+ * Authors of the commits by email, without bots. Sets `resolvedAuthors` of every commit
+ * to the shared entries, which the providers then fill with logins.
+ */
+export function collectAuthors(commits: Commit[]): AuthorInfo[] {
+  const map = new Map<string, AuthorInfo>()
+  commits.forEach((commit) => {
+    commit.resolvedAuthors = commit.authors.map((a, idx) => {
+      if (!a.email || !a.name)
+        return null
+      if (excludeAuthors.some(re => re.test(a.name)))
+        return null
+      if (!map.has(a.email)) {
+        map.set(a.email, {
+          commits: [],
+          name: a.name,
+          email: a.email,
+        })
+      }
+      const info = map.get(a.email)!
+
+      // record commits only for the first author
+      if (idx === 0)
+        info.commits.push(commit.shortHash)
+
+      return info
+    }).filter(notNullish)
+  })
+  return Array.from(map.values())
+}
+
+/**
+ * Sort the resolved authors, keeping one entry per login, or per name when unresolved
+ */
+export function dedupeAuthors(authors: AuthorInfo[]): AuthorInfo[] {
+  const loginSet = new Set<string>()
+  const nameSet = new Set<string>()
+  return authors
+    .sort((a, b) => (a.login || a.name).localeCompare(b.login || b.name))
+    .filter((i) => {
+      if (i.login && loginSet.has(i.login))
+        return false
+      if (i.login) {
+        loginSet.add(i.login)
+      }
+      else {
+        if (nameSet.has(i.name))
+          return false
+        nameSet.add(i.name)
+      }
+      return true
+    })
+}
+
+/**
+ * Resolve the authors of the commits through the author cache, looking up the uncached ones
+ * with `resolveAuthorInfo` of the provider. `prepare` first receives the uncached authors,
+ * e.g. to resolve them in batches.
+ */
+export async function resolveAuthorsWithCache(
+  commits: Commit[],
+  options: ChangelogOptions,
+  resolveAuthorInfo: (info: AuthorInfo) => Promise<AuthorInfo>,
+  prepare?: (uncached: AuthorInfo[]) => Promise<void> | void,
+) {
+  const authors = collectAuthors(commits)
+  const cache = await loadAuthorCache(options)
+  await prepare?.(authors.filter(info => !info.login && !cache.get(info.email)))
+  const resolved = await mapWithConcurrency(authors, options.concurrency || 5, info => resolveCachedAuthor(cache, info, () => resolveAuthorInfo(info)))
+  await cache.save()
+  return dedupeAuthors(resolved)
+}
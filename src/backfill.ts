@@ -0,0 +1,83 @@
+import type { ReleaseResult } from './run'
+import type { ChangelogOptions } from './types'
+import semver from 'semver'
+import { detectRepoProvider, resolveConfig } from './config'
+import { getFirstGitCommit, getGitTags, getTagVersion, selectLastMatchingTag } from './git'
+import { ReleaseExecutionError, runRelease } from './run'
+
+export interface BackfillOptions extends ChangelogOptions {
+  /**
+   * Skip tags with a lower version than this tag
+   */
+  since?: string
+}
+
+export interface BackfillRange {
+  from: string
+  to: string
+}
+
+export interface BackfillEntry extends BackfillRange {
+  result?: ReleaseResult
+  error?: Error
+}
+
+/**
+ * Tags matching the `tag` template in ascending semver order, each with the tag it is
+ * compared with, picked like for a regular release. `tags` are sorted newest first.
+ */
+export function buildBackfillRanges(tags: string[], template: string, firstCommit: string, since?: string): BackfillRange[] {
+  const sinceVersion = since && (getTagVersion(template, since) || semver.valid(since))
+  if (since && !sinceVersion)
+    throw new Error(`Invalid \`since\` tag ${since}, expected a version or a tag matching ${template}`)
+
+  const matching = tags.filter(tag => getTagVersion(template, tag))
+  return matching
+    .map(tag => ({ tag, version: getTagVersion(template, tag)! }))
+    .filter(i => !sinceVersion || semver.gte(i.version, sinceVersion))
+    .sort((a, b) => semver.compare(a.version, b.version))
+    .map(({ tag }) => ({
+      from: selectLastMatchingTag(tag, matching.slice(matching.indexOf(tag) + 1), template) || firstCommit,
+      to: tag,
+    }))
+}
+
+/**
+ * Ranges of the tags matched by `tagFilter` and the `tag` template, see `buildBackfillRanges`
+ */
+export async function getBackfillRanges(options: BackfillOptions): Promise<BackfillRange[]> {
+  const config = await resolveConfig(options)
+  // newest first, like `getLastMatchingTag` expects them
+  const tags = (await getGitTags()).filter(config.tagFilter)
+  return buildBackfillRanges(tags, config.tag, await getFirstGitCommit(), options.since)
+}
+
+/**
+ * Create or update the release of every historical tag, or its changelog section.
+ * A failing tag does not stop the others, except for a missing token.
+ */
+export async function backfill(options: BackfillOptions, onEntry?: (entry: BackfillEntry) => void): Promise<BackfillEntry[]> {
+  // detected once, instead of probing the remote again for every tag
+  const { repoProvider } = await detectRepoProvider(options)
+  const { since, ...releaseOptions } = options
+  const ranges = await getBackfillRanges({ ...options, repoProvider })
+  const entries: BackfillEntry[] = []
+
+  for (const range of ranges) {
+    const entry: BackfillEntry = { ...range }
+    try {
+      // the releases are not news, keep the chats quiet
+      const { result } = await runRelease({ ...releaseOptions, ...range, repoProvider, notify: false })
+      entry.result = result
+    }
+    catch (error) {
+      if (error instanceof ReleaseExecutionError && error.code === 'MISSING_TOKEN')
+        throw error
+      entry.error = error as Error
+    }
+    entries.push(entry)
+    onEntry?.(entry)
+  }
+
+  return entries
+}
@@ -0,0 +1,230 @@
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit } from './types'
+import { Buffer } from 'node:buffer'
+/* eslint-disable no-console */
+import { cyan, green, yellow } from 'ansis'
+import { expandAssets, uploadEachAsset } from './assets'
+import { resolveAuthorsWithCache } from './authors'
+import { isNotFound, warn } from './http'
+import { createSession } from './session'
+
+// Bitbucket has no concept of releases. Notes are either stored as the message
+// of an annotated tag, or uploaded as a file to the Downloads area (Cloud only).
+// Cloud: https://developer.atlassian.com/cloud/bitbucket/rest/
+// Data Center: https://developer.atlassian.com/server/bitbucket/rest/
+
+/**
+ * Bitbucket Data Center (Server) exposes its API under `/rest/api/1.0`,
+ * Bitbucket Cloud under `https://api.bitbucket.org/2.0`.
+ */
+export function isBitbucketServer(options: ChangelogOptions) {
+  return /\/rest\/api\//.test(options.baseUrlApi || '')
+}
+
+function splitRepo(repo: string) {
+  const [project, slug] = repo.split('/')
+  return { project, slug }
+}
+
+function getRepoApiUrl(options: ChangelogOptions, repo: string) {
+  if (!isBitbucketServer(options))
+    return `${options.baseUrlApi}/repositories/${repo}`
+  const { project, slug } = splitRepo(repo)
+  return `${options.baseUrlApi}/projects/${project}/repos/${slug}`
+}
+
+// Tags are created and deleted through the git REST API on Data Center
+function getRepoGitApiUrl(options: ChangelogOptions, repo: string) {
+  return getRepoApiUrl(options, repo).replace(/\/rest\/api\/([^/]+)/, '/rest/git/$1')
+}
+
+export function getRepoWebUrl(options: ChangelogOptions, repo: string) {
+  if (!isBitbucketServer(options))
+    return `${options.baseUrl}/${repo}`
+  const { project, slug } = splitRepo(repo)
+  return `${options.baseUrl}/projects/${project}/repos/${slug}`
+}
+
+export function getTagWebUrl(options: ChangelogOptions, repo: string, tag: string) {
+  if (!isBitbucketServer(options))
+    return `${getRepoWebUrl(options, repo)}/src/${encodeURIComponent(tag)}`
+  return `${getRepoWebUrl(options, repo)}/browse?at=${encodeURIComponent(`refs/tags/${tag}`)}`
+}
+
+function getHeaders(options: ChangelogOptions) {
+  // `username:app_password` pairs use basic auth, access tokens are sent as bearer tokens
+  const authorization = options.token?.includes(':')
+    ? `Basic ${Buffer.from(options.token).toString('base64')}`
+    : `Bearer ${options.token}`
+  return {
+    'accept': 'application/json',
+    'Content-Type': 'application/json',
+    authorization,
+  }
+}
+
+interface BitbucketTag {
+  hash: string
+  /**
+   * Message of annotated tags, Data Center does not return it
+   */
+  message?: string
+}
+
+async function getTag(options: ChangelogOptions, session: ReleaseSession, repo: string, tag: string): Promise<BitbucketTag> {
+  const data = await session.request(`${getRepoApiUrl(options, repo)}/${isBitbucketServer(options) ? 'tags' : 'refs/tags'}/${encodeURIComponent(tag)}`, {
+    headers: getHeaders(options),
+  })
+  return isBitbucketServer(options)
+    ? { hash: data.latestCommit }
+    : { hash: data.target?.hash, message: data.message || undefined }
+}
+
+async function createTag(options: ChangelogOptions, session: ReleaseSession, repo: string, tag: string, { hash, message }: BitbucketTag) {
+  const body = isBitbucketServer(options)
+    ? { name: tag, startPoint: hash, message }
+    : { name: tag, target: { hash }, message }
+  const url = isBitbucketServer(options)
+    ? `${getRepoGitApiUrl(options, repo)}/tags`
+    : `${getRepoApiUrl(options, repo)}/refs/tags`
+  await session.request(url, { method: 'POST', headers: getHeaders(options), body: JSON.stringify(body) })
+}
+
+async function deleteTag(options: ChangelogOptions, session: ReleaseSession, repo: string, tag: string) {
+  const url = isBitbucketServer(options)
+    ? `${getRepoGitApiUrl(options, repo)}/tags`
+    : `${getRepoApiUrl(options, repo)}/refs/tags`
+  await session.request(`${url}/${encodeURIComponent(tag)}`, { method: 'DELETE', headers: getHeaders(options) })
+}
+
+async function annotateTag(options: ChangelogOptions, session: ReleaseSession, content: string) {
+  const repo = options.releaseRepo as string
+  const tag = options.to!
+  const original = await getTag(options, session, repo, tag)
+  if (!options.bitbucketRewriteTag)
+    throw new Error(`Tag ${tag} already exists on Bitbucket, attaching the release notes deletes and re-creates it. Set \`bitbucketRewriteTag\` to allow it, or use \`bitbucketRelease: 'downloads'\`.`)
+
+  console.log(cyan('Attaching release notes to tag...'))
+  // Tags are immutable, so the tag is re-created on the same commit with the notes as message
+  await deleteTag(options, session, repo, tag)
+  try {
+    await createTag(options, session, repo, tag, { hash: original.hash, message: content })
+  }
+  catch (error) {
+    // put the original tag back rather than leaving the release without its tag
+    try {
+      await createTag(options, session, repo, tag, original)
+    }
+    catch {
+      throw new Error(`Failed to re-create tag ${tag}, and it could not be restored. Push it again with \`git push origin ${tag}\`: ${error}`)
+    }
+    throw error
+  }
+  console.log(yellow(`Tag ${tag} was re-created on the remote, run \`git fetch --tags --force\` to update local clones.`))
+
+  const link = getTagWebUrl(options, repo, tag)
+  console.log(green(`Released on ${link}`))
+  return link
+}
+
+async function uploadDownload(options: ChangelogOptions, session: ReleaseSession, fileName: string, data: Buffer | string) {
+  if (isBitbucketServer(options))
+    throw new Error('Bitbucket Data Center has no Downloads area, use `bitbucketRelease: \'tag\'` instead.')
+
+  const { authorization } = getHeaders(options)
+  const form = new FormData()
+  form.append('files', new Blob([data], { type: 'application/octet-stream' }), fileName)
+  await session.request(`${getRepoApiUrl(options, options.releaseRepo as string)}/downloads`, {
+    method: 'POST',
+    headers: { authorization },
+    body: form,
+  })
+}
+
+export async function sendRelease(
+  options: ChangelogOptions,
+  content: string,
+  session = createSession(options),
+) {
+  if (options.bitbucketRelease !== 'downloads')
+    return annotateTag(options, session, content)
+
+  const fileName = `RELEASE_NOTES-${options.to}.md`
+  console.log(cyan(`Uploading ${fileName} to downloads...`))
+  await uploadDownload(options, session, fileName, content)
+  const link = `${getRepoWebUrl(options, options.releaseRepo as string)}/downloads/`
+  console.log(green(`Released on ${link}`))
+  return link
+}
+
+export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo, session = createSession(options)) {
+  if (info.login)
+    return info
+
+  // token not provided, skip bitbucket resolving
+  if (!options.token)
+    return info
+
+  // Only Data Center allows searching users by email
+  if (isBitbucketServer(options)) {
+    try {
+      const data = await session.request(`${options.baseUrlApi}/users?filter=${encodeURIComponent(info.email)}`, {
+        headers: getHeaders(options),
+      })
+      const user = data.values?.find((u: any) => u.emailAddress === info.email)
+      if (user)
+        info.login = user.slug
+    }
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the login of ${info.email}`, error)
+    }
+  }
+
+  if (info.login)
+    return info
+
+  if (info.commits.length) {
+    try {
+      const repoUrl = getRepoApiUrl(options, options.repo as string)
+      if (isBitbucketServer(options)) {
+        const data = await session.request(`${repoUrl}/commits/${info.commits[0]}`, {
+          headers: getHeaders(options),
+        })
+        info.login = data.author?.slug || undefined
+      }
+      else {
+        const data = await session.request(`${repoUrl}/commit/${info.commits[0]}`, {
+          headers: getHeaders(options),
+        })
+        info.login = data.author?.user?.nickname || undefined
+      }
+    }
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the login of ${info.email}`, error)
+    }
+  }
+
+  return info
+}
+
+export async function resolveAuthors(commits: Commit[], options: ChangelogOptions, session = createSession(options)) {
+  return resolveAuthorsWithCache(commits, options, info => resolveAuthorInfo(options, info, session))
+}
+
+export async function hasTagOnBitbucket(tag: string, options: ChangelogOptions, session = createSession(options)) {
+  try {
+    return !!(await getTag(options, session, options.repo as string, tag)).hash
+  }
+  catch (error) {
+    if (isNotFound(error))
+      return false
+    throw error
+  }
+}
+
+export async function uploadAssets(options: ChangelogOptions, assets: string | string[], session = createSession(options)) {
+  const expandedAssets = await expandAssets(assets)
+  await uploadEachAsset(expandedAssets, (fileName, fileData) => uploadDownload(options, session, fileName, fileData))
+}
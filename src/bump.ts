@@ -0,0 +1,168 @@
+import type { ReleaseType } from 'semver'
+import type { ReleaseResult } from './run'
+import type { ChangelogOptions, Commit } from './types'
+import { existsSync } from 'node:fs'
+import fs from 'node:fs/promises'
+import { getGitDiff } from 'changelogen'
+import semver from 'semver'
+import { detectRepoProvider, resolveConfig } from './config'
+import { commitFiles, createGitTag, getFirstGitCommit, getGitTags, getTagString, getTagVersion, pushWithTags } from './git'
+import { parseCommits } from './parse'
+import { runRelease } from './run'
+
+export interface BumpOptions extends ChangelogOptions {
+  /**
+   * Prerelease channel, e.g. `beta` for `1.2.0-beta.0`
+   */
+  preid?: string
+  /**
+   * Write the version into `package.json`, commit it and create the tag
+   */
+  write?: boolean
+  /**
+   * Push the commit and the tag, requires `write`
+   */
+  push?: boolean
+  /**
+   * Create the release of the new tag once it is created, requires `write`
+   */
+  release?: boolean
+}
+
+export interface VersionRecommendation {
+  /**
+   * Last tag matching the `tag` template, the first commit when there is none
+   */
+  from: string
+  current: string
+  /**
+   * The current version when there is nothing to release
+   */
+  version: string
+  tag: string
+  /**
+   * Undefined when there are no commits since `from`, no release is needed
+   */
+  releaseType?: ReleaseType
+  commits: Commit[]
+}
+
+export interface BumpResult extends VersionRecommendation {
+  /**
+   * Files written with the new version
+   */
+  files: string[]
+  tagged: boolean
+  pushed: boolean
+  release?: ReleaseResult
+}
+
+/**
+ * Release type of a set of commits, a breaking change is a major release and a feature a minor one.
+ * Below 1.0.0 a breaking change is a minor release and everything else a patch release.
+ */
+export function getReleaseType(current: string, commits: Pick<Commit, 'type' | 'isBreaking'>[]): 'major' | 'minor' | 'patch' {
+  const type = commits.some(c => c.isBreaking)
+    ? 'major'
+    : commits.some(c => c.type === 'feat') ? 'minor' : 'patch'
+  if (semver.major(current) === 0)
+    return type === 'major' ? 'minor' : 'patch'
+  return type
+}
+
+/**
+ * Next version of `current` for a release type. With `preid` the version is a prerelease of
+ * the channel, which keeps counting up as long as the prerelease already covers the changes.
+ * Without it a prerelease version is released as is.
+ */
+export function getNextVersion(current: string, type: 'major' | 'minor' | 'patch', preid?: string): { version: string, releaseType: ReleaseType } {
+  if (!preid)
+    return { version: semver.inc(current, type)!, releaseType: type }
+
+  const { minor, patch, prerelease } = semver.parse(current)!
+  // `1.1.0-beta.0` already covers a minor release but not a major one
+  const covered = prerelease.length > 0 && !(
+    (type === 'major' && (minor !== 0 || patch !== 0))
+    || (type === 'minor' && patch !== 0)
+  )
+  const releaseType: ReleaseType = covered ? 'prerelease' : `pre${type}`
+  return { version: semver.inc(current, releaseType, preid)!, releaseType }
+}
+
+async function readPackageVersion() {
+  const pkg = await fs.readFile('package.json', 'utf-8').then(JSON.parse).catch(() => ({}))
+  return semver.valid(pkg.version) || '0.0.0'
+}
+
+/**
+ * Recommend the next version from the parsed commits since the last tag matching the `tag` template.
+ * Without such a tag the version of `package.json` is the current one.
+ * Without commits since the tag the current version is recommended, with no `releaseType`.
+ */
+export async function recommendVersion(options: BumpOptions): Promise<VersionRecommendation> {
+  const config = await resolveConfig({ ...options, to: 'HEAD' })
+  // newest first, prereleases included so that a channel keeps counting up
+  const last = (await getGitTags())
+    .filter(config.tagFilter)
+    .find(tag => getTagVersion(config.tag, tag))
+  const from = last || await getFirstGitCommit()
+  const current = last ? getTagVersion(config.tag, last)! : await readPackageVersion()
+  const commits = parseCommits(await getGitDiff(from, 'HEAD'), config)
+  if (!commits.length)
+    return { from, current, version: current, tag: last || getTagString(config.tag, current), commits }
+
+  const { version, releaseType } = getNextVersion(current, getReleaseType(current, commits), options.preid)
+  return { from, current, version, tag: getTagString(config.tag, version), releaseType, commits }
+}
+
+// keeps the formatting of the file, only the version changes
+async function writePackageVersion(version: string) {
+  const path = 'package.json'
+  if (!existsSync(path))
+    return undefined
+  const content = await fs.readFile(path, 'utf-8')
+  const updated = content.replace(/("version"\s*:\s*")[^"]*(")/, `$1${version}$2`)
+  if (updated === content)
+    return undefined
+  await fs.writeFile(path, updated, 'utf-8')
+  return path
+}
+
+/**
+ * Recommend the next version, and with `write` update `package.json`, commit it and tag it.
+ * `push` pushes the commit and the tag, `release` then creates the release of the tag.
+ */
+export async function bump(options: BumpOptions): Promise<BumpResult> {
+  const { preid, write, push, release, ...releaseOptions } = options
+  // there is no tag to push or release without `write`
+  if ((push || release) && !write)
+    throw new Error(`\`${push ? 'push' : 'release'}\` requires \`write\`, which creates the tag`)
+  // detected once for the recommendation and the release
+  const repoProvider = release ? (await detectRepoProvider(options)).repoProvider : options.repoProvider
+  const recommendation = await recommendVersion({ ...options, repoProvider })
+  const result: BumpResult = { ...recommendation, files: [], tagged: false, pushed: false }
+  // recommending the current version is fine, writing or releasing it again is not
+  if (!recommendation.releaseType && (write || push || release))
+    throw new Error(`No commits since ${recommendation.from}, nothing to release`)
+  if (!write || options.dry)
+    return result
+
+  const { tag, version } = recommendation
+  const path = await writePackageVersion(version)
+  if (path) {
+    await commitFiles([path], `chore: release ${tag}`)
+    result.files.push(path)
+  }
+  await createGitTag(tag, tag, options.signTags)
+  result.tagged = true
+
+  if (push) {
+    await pushWithTags(options.remote)
+    result.pushed = true
+  }
+
+  if (release)
+    result.release = (await runRelease({ ...releaseOptions, repoProvider, to: tag })).result
+
+  return result
+}
@@ -0,0 +1,105 @@
+import type { AuthorInfo, ChangelogOptions } from './types'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { warn } from './http'
+
+export interface CachedAuthor {
+  login: string
+  name: string
+  /**
+   * Time the entry was written, in milliseconds
+   */
+  time: number
+}
+
+type AuthorCacheData = Record<string, Record<string, CachedAuthor>>
+
+export interface AuthorCache {
+  get: (email: string) => CachedAuthor | undefined
+  set: (email: string, author: Omit<CachedAuthor, 'time'>) => void
+  save: () => Promise<void>
+}
+
+const DEFAULT_CACHE_DIR = 'node_modules/.cache/changelogits'
+const DEFAULT_CACHE_TTL = 7 * 24 * 60 * 60 * 1000
+
+const noopCache: AuthorCache = {
+  get: () => undefined,
+  set: () => {},
+  save: async () => {},
+}
+
+/**
+ * Load the on-disk cache of resolved author logins, scoped to the provider host
+ */
+export async function loadAuthorCache(options: ChangelogOptions): Promise<AuthorCache> {
+  if (options.cache === false)
+    return noopCache
+
+  const file = path.resolve(options.cacheDir || DEFAULT_CACHE_DIR, 'authors.json')
+  const ttl = options.cacheTtl ?? DEFAULT_CACHE_TTL
+  const scope = `${options.repoProvider || 'github'}:${getHost(options.baseUrlApi)}`
+
+  let data: AuthorCacheData = {}
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf-8'))
+  }
+  catch {
+    // missing or corrupted cache, start over
+  }
+
+  const isFresh = (entry: CachedAuthor) => Date.now() - entry.time < ttl
+  const entries = data[scope] ||= {}
+  let dirty = false
+
+  return {
+    get(email) {
+      const entry = entries[email]
+      return entry && isFresh(entry) ? entry : undefined
+    },
+    set(email, author) {
+      entries[email] = { ...author, time: Date.now() }
+      dirty = true
+    },
+    async save() {
+      if (!dirty)
+        return
+      for (const [email, entry] of Object.entries(entries)) {
+        if (!isFresh(entry))
+          delete entries[email]
+      }
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true })
+        await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf-8')
+        dirty = false
+      }
+      catch (error) {
+        warn(`Failed to write the author cache to ${file}`, error)
+      }
+    },
+  }
+}
+
+function getHost(url?: string) {
+  try {
+    return new URL(url!).host
+  }
+  catch {
+    return url || ''
+  }
+}
+
+/**
+ * Use the cached login of an author, or resolve it and remember the result
+ */
+export async function resolveCachedAuthor(cache: AuthorCache, info: AuthorInfo, resolve: () => Promise<AuthorInfo>) {
+  const cached = cache.get(info.email)
+  if (!info.login && cached) {
+    info.login = cached.login
+    return info
+  }
+  const resolved = await resolve()
+  if (resolved.login)
+    cache.set(resolved.email, { login: resolved.login, name: resolved.name })
+  return resolved
+}
@@ -0,0 +1,78 @@
+import type { ResolvedChangelogOptions } from './types'
+import fs from 'node:fs/promises'
+import { commitFiles, escapeRegExp, getRefDate } from './git'
+import { resolveMessages } from './locales'
+
+export const CHANGELOG_START = '<!-- changelogits:start -->'
+export const CHANGELOG_END = '<!-- changelogits:end -->'
+
+const DEFAULT_CHANGELOG = 'CHANGELOG.md'
+
+export function getChangelogPath(config: Pick<ResolvedChangelogOptions, 'changelog'>) {
+  return typeof config.changelog === 'string' ? config.changelog : DEFAULT_CHANGELOG
+}
+
+/**
+ * Insert the section of `version` into the managed part of a changelog, replacing
+ * the previous section of the same version. Content outside the markers is kept as is.
+ * Throws when only one of the markers is found, rather than managing a second part.
+ */
+export function updateChangelog(content: string | undefined, version: string, md: string, date: string, title = 'Changelog') {
+  const section = `## ${version} (${date})\n\n${md.trim()}\n`
+
+  if (!content?.trim())
+    return `# ${title}\n\n${CHANGELOG_START}\n\n${section}\n${CHANGELOG_END}\n`
+
+  let start = content.indexOf(CHANGELOG_START)
+  let end = content.indexOf(CHANGELOG_END)
+  if ((start === -1) !== (end === -1))
+    throw new Error(`The changelog has an unmatched ${start === -1 ? CHANGELOG_END : CHANGELOG_START} marker, add the missing one or remove it`)
+  if (end < start)
+    throw new Error(`The changelog has ${CHANGELOG_END} before ${CHANGELOG_START}, swap the markers`)
+  if (start === -1) {
+    // first run on a hand-written changelog, manage the part below its title
+    const title = /^# .*\n+/.exec(content)
+    const at = title ? title[0].length : 0
+    content = `${content.slice(0, at)}${CHANGELOG_START}\n\n${CHANGELOG_END}\n\n${content.slice(at)}`
+    start = content.indexOf(CHANGELOG_START)
+    end = content.indexOf(CHANGELOG_END)
+  }
+
+  const before = content.slice(0, start + CHANGELOG_START.length)
+  const after = content.slice(end)
+  const sections = content.slice(start + CHANGELOG_START.length, end)
+    .split(/^(?=## )/m)
+    .map(s => s.trim())
+    .filter(Boolean)
+
+  const heading = new RegExp(`^## ${escapeRegExp(version)}(?: |$)`, 'm')
+  const index = sections.findIndex(s => heading.test(s.split('\n')[0]))
+  if (index === -1)
+    sections.unshift(section.trim())
+  else
+    sections[index] = section.trim()
+
+  return `${before}\n\n${sections.join('\n\n')}\n\n${after}`
+}
+
+/**
+ * Update the changelog file of the repository, and commit it when `changelogCommit` is set
+ */
+export async function writeChangelog(config: ResolvedChangelogOptions, md: string) {
+  const path = getChangelogPath(config)
+  const version = String(config.to)
+  const content = await fs.readFile(path, 'utf-8').catch(() => undefined)
+  // the date of the tag, so that backfilled sections are not all dated today
+  const date = await getRefDate(version).catch(() => '') || new Date().toISOString().slice(0, 10)
+  const updated = updateChangelog(content, version, md, date, resolveMessages(config).changelog)
+
+  if (updated === content)
+    return { path, committed: false }
+  await fs.writeFile(path, updated, 'utf-8')
+
+  if (config.changelogCommit) {
+    await commitFiles([path], `docs(changelog): ${version}`)
+    return { path, committed: true }
+  }
+  return { path, committed: false }
+}
@@ -1,17 +1,24 @@
 #!/usr/bin/env node
 
+import type { DroppedCommit } from './filters'
 import process from 'node:process'
-import { blue, bold, cyan, dim, red, yellow } from 'ansis'
+import { blue, bold, cyan, dim, green, red, yellow } from 'ansis'
 import cac from 'cac'
 import { execa } from 'execa'
 import { version } from '../package.json'
-import { executeChangelog, type ExecuteChangelogResult, ReleaseExecutionError } from './run'
+import { AuthError } from './auth'
+import { backfill } from './backfill'
+import { bump } from './bump'
+import { detectRepoProvider } from './config'
+import { executeChangelog, type ExecuteChangelogResult, getProviderName, ReleaseExecutionError, type ReleaseResult } from './run'
+import { releaseWorkspace } from './workspace'
 
 const cli = cac('changelogits')
 
 cli
   .version(version)
-  .option('-t, --token <path>', 'Repository Token (GitHub Token or GitLab Private Token)')
+  .option('-t, --token <path>', 'Repository Token (GitHub Token, GitLab Private Token, Gitea or Bitbucket Access Token)')
+  .option('--auth-type <type>', 'Kind of token: `token` (default), `job-token` for GitLab CI job tokens or `github-app`')
   .option('--from <ref>', 'From tag')
   .option('--to <ref>', 'To tag')
   .option('--github <path>', 'GitHub Repository, e.g. antfu/changelogits')
@@ -23,13 +30,28 @@ cli
   .option('--prerelease', 'Mark release as prerelease')
   .option('-d, --draft', 'Mark release as draft')
   .option('--output <path>', 'Output to file instead of sending to repository')
+  .option('--format <format>', 'Format of the output file: markdown, html, atom or json, inferred from its extension by default')
+  .option('--changelog [path]', 'Prepend the release notes to a changelog file (defaults to CHANGELOG.md) instead of sending to repository')
+  .option('--changelog-commit', 'Commit the updated changelog file')
   .option('--capitalize', 'Should capitalize for each comment message')
   .option('--emoji', 'Use emojis in section titles', { default: true })
   .option('--group', 'Nest commit messages under their scopes')
+  .option('--style <style>', 'Style of the release notes: default, keep-a-changelog, plain or compact')
+  .option('--locale <locale>', 'Language of the generated text: en, zh-CN or ja, comma separated for bilingual notes, e.g. en,zh-CN')
+  .option('--release-templates <path>', 'Module exporting templates that override how the release notes are rendered')
   .option('--dry', 'Dry run')
-  .option('--repo-provider', 'Repository Provider (github or gitlab)', { default: 'github' })
+  .option('--no-cache', 'Do not use the on-disk cache of resolved author logins')
+  .option('--no-notify', 'Do not send the notifications of the config')
+  .option('--repo-provider <provider>', 'Repository Provider (github, gitlab, gitea, bitbucket or a custom provider from the config), detected from the git remote by default')
+  .option('--remote <remote>', 'Git remote name or URL to read the repository from, defaults to `origin`')
+  .option('--source <source>', 'Build release notes from `commits` or merged `pull-requests`')
+  .option('--bitbucket-release <mode>', 'Where to store Bitbucket release notes (tag or downloads)')
+  .option('--bitbucket-rewrite-tag', 'Allow re-creating the existing Bitbucket tag with the release notes as its message')
+  .option('--create-tag [mode]', 'Create the tag `--to` through the provider API when it is missing, `--create-tag annotated` with the release notes as its message')
   .option('--assets <paths...>', 'Files to upload as assets to the release. Use quotes to prevent shell glob expansion, e.g., "--assets \'dist/*.js\'"')
   .option('--json', 'Output changelog and metadata as JSON to stdout and exit')
+  .option('--json-file <path>', 'Write changelog, metadata and the release result as JSON to a file')
+  .option('--explain', 'List the commits left out of the release notes and why')
   .option('--print-md', 'Print only the generated markdown to stdout and exit')
   .option('--quiet', 'Reduce logs (useful when capturing output)')
   .help()
@@ -63,22 +85,69 @@ async function readTokenFromFile(path: string) {
   }
 }
 
-cli
-  .command('')
-  .action(async (args) => {
-    const repoProvider = args.repoProvider || 'github'
-    let token = args.token
+async function readGitHubAppFromEnv() {
+  const appId = process.env.GITHUB_APP_ID
+  let privateKey = process.env.GITHUB_APP_PRIVATE_KEY || ''
+  if (!privateKey && process.env.GITHUB_APP_PRIVATE_KEY_PATH)
+    privateKey = await readTokenFromFile(process.env.GITHUB_APP_PRIVATE_KEY_PATH)
+  if (!appId || !privateKey)
+    return undefined
+  return {
+    appId,
+    // keys stored in CI variables often have escaped line breaks
+    privateKey: privateKey.replace(/\\n/g, '\n'),
+    installationId: Number(process.env.GITHUB_APP_INSTALLATION_ID) || undefined,
+  }
+}
 
-    if (!token) {
-      if (repoProvider === 'gitlab') {
-        token = process.env.GITLAB_TOKEN || process.env.GITLAB_PRIVATE_TOKEN || ''
-        if (!token) {
-          const envPath = process.env.GITLAB_TOKEN_PATH || process.env.GITLAB_PRIVATE_TOKEN_PATH
-          if (envPath)
-            token = await readTokenFromFile(envPath)
-        }
-        if (!token)
-          token = await readTokenFromGitLabCli()
+/**
+ * Detect the provider and look up its token, in place on the CLI args.
+ * Custom providers and undetected hosts only get the token of `--token` or the config,
+ * the credentials of a built-in provider are never sent to another forge.
+ */
+async function resolveCredentials(args: any) {
+  // the provider decides where the token is looked up
+  const { repoProvider, detected } = await detectRepoProvider(args)
+  // passed on, so that the remote is only probed once
+  args.repoProvider = repoProvider
+  let token = args.token
+
+  if (!token) {
+    if (repoProvider === 'gitlab') {
+      token = process.env.GITLAB_TOKEN || process.env.GITLAB_PRIVATE_TOKEN || ''
+      if (!token) {
+        const envPath = process.env.GITLAB_TOKEN_PATH || process.env.GITLAB_PRIVATE_TOKEN_PATH
+        if (envPath)
+          token = await readTokenFromFile(envPath)
+      }
+      if (!token)
+        token = await readTokenFromGitLabCli()
+      if (!token)
+        token = process.env.CI_JOB_TOKEN || ''
+    }
+    else if (repoProvider === 'gitea') {
+      token = process.env.GITEA_TOKEN || process.env.FORGEJO_TOKEN || ''
+      if (!token) {
+        const envPath = process.env.GITEA_TOKEN_PATH || process.env.FORGEJO_TOKEN_PATH
+        if (envPath)
+          token = await readTokenFromFile(envPath)
+      }
+    }
+    else if (repoProvider === 'bitbucket') {
+      token = process.env.BITBUCKET_TOKEN || ''
+      if (!token) {
+        const envPath = process.env.BITBUCKET_TOKEN_PATH
+        if (envPath)
+          token = await readTokenFromFile(envPath)
+      }
+      // Bitbucket Cloud app passwords are used together with the username
+      if (!token && process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD)
+        token = `${process.env.BITBUCKET_USERNAME}:${process.env.BITBUCKET_APP_PASSWORD}`
+    }
+    else if (repoProvider === 'github' && detected) {
+      const githubApp = await readGitHubAppFromEnv()
+      if (githubApp) {
+        args.githubApp = githubApp
       }
       else {
         token = process.env.GITHUB_TOKEN || ''
@@ -91,16 +160,26 @@ cli
           token = await readTokenFromGitHubCli()
       }
     }
-    else {
-      if (typeof token === 'string' && token.length < 512 && /[\\/]/.test(token)) {
-        const fileToken = await readTokenFromFile(token)
-        if (fileToken)
-          token = fileToken
-      }
+  }
+  else {
+    if (typeof token === 'string' && token.length < 512 && /[\\/]/.test(token)) {
+      const fileToken = await readTokenFromFile(token)
+      if (fileToken)
+        token = fileToken
     }
+  }
 
-    if (token)
-      args.token = token
+  if (token)
+    args.token = token
+  // job tokens are sent in a different header, e.g. with `GITLAB_TOKEN: $CI_JOB_TOKEN`
+  if (repoProvider === 'gitlab' && !args.authType && token && token === process.env.CI_JOB_TOKEN)
+    args.authType = 'job-token'
+}
+
+cli
+  .command('')
+  .action(async (args) => {
+    await resolveCredentials(args)
 
     let execution: ExecuteChangelogResult | undefined
 
@@ -109,12 +188,21 @@ cli
       const { context, markdown, mode } = execution
       const { config, commits } = context
 
+      if (args.jsonFile && execution.jsonPayload) {
+        const fs = await import('node:fs/promises')
+        await fs.writeFile(args.jsonFile, `${JSON.stringify(execution.jsonPayload, null, 2)}\n`, 'utf-8')
+      }
+
       if (!args.quiet) {
         console.log()
-        const providerName = config.repoProvider === 'gitlab' ? 'GitLab' : 'GitHub'
+        const providerName = getProviderName(config.repoProvider, config.providers)
         console.log(dim(`changelo${bold(providerName)} `) + dim(`v${version}`))
       }
 
+      // on stderr, so that the output of --json and --print-md stays usable
+      if (args.explain)
+        printDropped(context.dropped)
+
       if (mode === 'json') {
         if (execution.jsonPayload)
           console.log(JSON.stringify(execution.jsonPayload))
@@ -146,12 +234,22 @@ cli
       if (releaseResult.outcome === 'output-saved') {
         console.log(yellow(`Saved to ${releaseResult.outputPath}`))
       }
+
+      if (releaseResult.outcome === 'changelog-updated') {
+        console.log(yellow(releaseResult.committed
+          ? `Updated and committed ${releaseResult.outputPath}`
+          : `Updated ${releaseResult.outputPath}`))
+      }
     }
     catch (error) {
       if (error instanceof ReleaseExecutionError) {
         handleReleaseExecutionError(error)
         return
       }
+      if (error instanceof AuthError) {
+        console.error(red(error.message))
+        process.exit(1)
+      }
 
       console.error(red(String(error)))
       if ((error as any)?.stack)
@@ -168,8 +266,130 @@ cli
     }
   })
 
+cli
+  .command('backfill', 'Create or update the releases of all historical tags')
+  .option('--since <tag>', 'Skip tags with a lower version than this tag')
+  .action(async (args) => {
+    await resolveCredentials(args)
+
+    try {
+      const entries = await backfill(args, (entry) => {
+        const range = cyan(entry.from) + dim(' -> ') + blue(entry.to)
+        if (entry.error)
+          console.error(`${range} ${red(entry.error.message)}`)
+        else
+          console.log(`${range} ${describeResult(entry.result!)}`)
+      })
+      const failed = entries.filter(entry => entry.error).length
+      console.log()
+      console.log(dim(`${entries.length} tags, ${failed} failed`))
+      if (failed)
+        process.exitCode = 1
+    }
+    catch (error) {
+      if (error instanceof ReleaseExecutionError) {
+        handleReleaseExecutionError(error)
+        return
+      }
+      console.error(red(String(error)))
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('bump', 'Recommend the next version from the commits since the last tag, and tag it with `--write`')
+  .option('--preid <id>', 'Prerelease channel, e.g. beta for 1.2.0-beta.0')
+  .option('--write', 'Write the version into package.json, commit it and create the tag')
+  .option('--push', 'Push the commit and the tag, requires --write')
+  .option('--release', 'Create the release of the new tag, requires --write and a pushed tag, e.g. with --push')
+  .action(async (args) => {
+    if (args.release)
+      await resolveCredentials(args)
+
+    try {
+      const result = await bump(args)
+      if (args.quiet) {
+        console.log(result.version)
+        return
+      }
+      if (!result.releaseType) {
+        console.log(`${cyan(result.current)} ${dim(`(no release needed, no commits since ${result.from})`)}`)
+        return
+      }
+      console.log(`${cyan(result.current)}${dim(' -> ')}${blue(result.version)} ${dim(`(${result.releaseType}, ${result.commits.length} commits since ${result.from})`)}`)
+      if (result.files.length)
+        console.log(yellow(`Updated and committed ${result.files.join(', ')}`))
+      if (result.tagged)
+        console.log(yellow(`Created tag ${result.tag}${result.pushed ? ' and pushed it' : ''}`))
+      if (result.release)
+        console.log(describeResult(result.release))
+    }
+    catch (error) {
+      if (error instanceof ReleaseExecutionError) {
+        handleReleaseExecutionError(error)
+        return
+      }
+      console.error(red(String(error)))
+      process.exit(1)
+    }
+  })
+
+cli
+  .command('workspace', 'Create the releases of the workspace packages tagged at `--to`, e.g. `pkg@1.2.0`')
+  .option('--package-tag <template>', 'Tag template of the packages, `{name}` is replaced by the package name (defaults to {name}@%s)')
+  .option('--packages <names>', 'Comma separated names of the packages to release, all public packages by default')
+  .action(async (args) => {
+    await resolveCredentials(args)
+
+    try {
+      const { packageTag, packages, ...options } = args
+      const workspace = {
+        tag: packageTag,
+        packages: packages ? String(packages).split(',').map(name => name.trim()) : undefined,
+      }
+      const entries = await releaseWorkspace({ ...options, workspace }, (entry) => {
+        const range = `${bold(entry.package.name)} ${cyan(entry.from)}${dim(' -> ')}${blue(entry.to)}`
+        if (entry.error)
+          console.error(`${range} ${red(entry.error.message)}`)
+        else if (entry.skipped)
+          console.log(`${bold(entry.package.name)} ${dim(`skipped, ${entry.skipped}`)}`)
+        else
+          console.log(`${range} ${describeResult(entry.result!)}`)
+      })
+      const released = entries.filter(entry => entry.result).length
+      const failed = entries.filter(entry => entry.error).length
+      console.log()
+      console.log(dim(`${entries.length} packages, ${released} released, ${failed} failed`))
+      if (failed)
+        process.exitCode = 1
+    }
+    catch (error) {
+      if (error instanceof ReleaseExecutionError) {
+        handleReleaseExecutionError(error)
+        return
+      }
+      console.error(red(String(error)))
+      process.exit(1)
+    }
+  })
+
 cli.parse()
 
+function describeResult(result: ReleaseResult) {
+  if (result.outcome === 'dry-run')
+    return yellow('dry run')
+  if (result.outcome === 'released')
+    return green(result.releaseLink || 'released')
+  return yellow(`saved to ${result.outputPath}`)
+}
+
+function printDropped(dropped: DroppedCommit[]) {
+  console.error(dim(`${dropped.length} commits left out of the release notes`))
+  for (const commit of dropped)
+    console.error(`${dim(commit.hash)} ${commit.subject} ${yellow(`(${commit.reason})`)}`)
+  console.error()
+}
+
 function handleReleaseExecutionError(error: ReleaseExecutionError) {
   if (error.code === 'MISSING_TOKEN')
     console.error(red(error.message))
@@ -1,5 +1,13 @@
-import type { ChangelogOptions, ResolvedChangelogOptions } from './types'
-import { getCurrentGitBranch, getFirstGitCommit, getGitRepo, getLastMatchingTag, getSafeTagTemplate, isPrerelease } from './git'
+import type { ReleaseTemplates } from './markdown'
+import type { GitRemote } from './remote'
+import type { ChangelogOptions, RepoProviderType, ResolvedChangelogOptions } from './types'
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { getCurrentGitBranch, getFirstGitCommit, getGitRemoteUrl, getGitRepo, getLastMatchingTag, getSafeTagTemplate, isPrerelease } from './git'
+import { warn } from './http'
+import { locales, localizeTitles } from './locales'
+import { getProvider } from './providers'
+import { detectProvider, getApiUrl, getKnownProvider, parseRemoteUrl } from './remote'
 
 export function defineConfig(config: ChangelogOptions) {
   return config
@@ -8,40 +16,112 @@ export function defineConfig(config: ChangelogOptions) {
 const providerToDomain = {
   github: 'https://github.com',
   gitlab: 'https://gitlab.com',
+  gitea: 'https://gitea.com',
+  bitbucket: 'https://bitbucket.org',
 }
-const providerToApiDomain = {
-  github: 'https://api.github.com',
-  gitlab: 'https://gitlab.com/api/v4',
-}
+const defaultRepoProvider = 'github'
 
 const defaultConfig = {
   scopeMap: {},
   types: {
-    feat: { title: '🚀 Features' },
-    fix: { title: '🐞 Bug Fixes' },
-    perf: { title: '🏎 Performance' },
+    feat: { title: locales.en.titles.feat },
+    fix: { title: locales.en.titles.fix },
+    perf: { title: locales.en.titles.perf },
   },
   titles: {
-    breakingChanges: '🚨 Breaking Changes',
+    breakingChanges: locales.en.titles.breakingChanges,
   },
   contributors: true,
   capitalize: true,
   group: true,
   tag: 'v%s',
-  repoProvider: 'github',
 } satisfies ChangelogOptions
 
-export async function resolveConfig(options: ChangelogOptions) {
+async function loadUserConfig(options: ChangelogOptions) {
   const { loadConfig } = await import('c12')
-  const config = await loadConfig<ChangelogOptions>({
+  return await loadConfig<ChangelogOptions>({
     name: 'changelogits',
     defaults: defaultConfig,
     overrides: options,
     packageJson: 'changelogits',
   }).then(r => r.config || defaultConfig)
+}
+
+async function loadTemplates(path: string) {
+  const file = resolve(path)
+  if (!existsSync(file))
+    throw new Error(`Can not find the templates module ${path}`)
+  const { loadConfig } = await import('c12')
+  return await loadConfig<Partial<ReleaseTemplates>>({
+    configFile: file,
+    rcFile: false,
+    globalRc: false,
+    packageJson: false,
+    dotenv: false,
+  }).then(r => r.config)
+}
+
+async function getRemote(config: ChangelogOptions) {
+  const url = await getGitRemoteUrl(config.remote)
+  return url ? parseRemoteUrl(url) : undefined
+}
+
+export interface RepoProviderDetection {
+  repoProvider: string
+  /**
+   * False when the remote belongs to an unknown host and GitHub is assumed
+   */
+  detected: boolean
+}
+
+async function resolveRepoProvider(config: ChangelogOptions, remote: GitRemote | undefined): Promise<RepoProviderDetection> {
+  if (config.repoProvider)
+    return { repoProvider: config.repoProvider, detected: true }
+  const webUrl = config.baseUrl || remote?.webUrl
+  if (!webUrl)
+    return { repoProvider: defaultRepoProvider, detected: true }
+  const detected = await detectProvider(webUrl, config.hosts)
+  if (!detected)
+    warn(`Could not detect the provider of ${webUrl}, using GitHub. Set \`repoProvider\` or \`hosts\` to choose another one.`)
+  return { repoProvider: detected || defaultRepoProvider, detected: !!detected }
+}
+
+/**
+ * Provider of the repository, from the options, the config or detected from the git remote.
+ * Pass it on as `repoProvider`, so that `resolveConfig` does not probe the remote again.
+ */
+export async function detectRepoProvider(options: ChangelogOptions): Promise<RepoProviderDetection> {
+  if (options.repoProvider)
+    return { repoProvider: options.repoProvider, detected: true }
+  const config = await loadUserConfig(options)
+  return resolveRepoProvider(config, await getRemote(config))
+}
+
+// The remote is not used when its host belongs to another provider, e.g. a mirror on GitHub
+function getRemoteBaseUrl(config: ChangelogOptions, remote: GitRemote | undefined) {
+  if (!remote)
+    return undefined
+  const provider = getKnownProvider(remote.host, config.hosts)
+  if (provider && provider !== config.repoProvider)
+    return undefined
+  return remote.webUrl
+}
+
+export async function resolveConfig(options: ChangelogOptions) {
+  const config = await loadUserConfig(options)
+  const remote = await getRemote(config)
 
-  config.baseUrl = config.baseUrl ?? providerToDomain[config.repoProvider || defaultConfig.repoProvider]
-  config.baseUrlApi = config.baseUrlApi ?? providerToApiDomain[config.repoProvider || defaultConfig.repoProvider]
+  config.repoProvider = (await resolveRepoProvider(config, remote)).repoProvider
+  // fail early on unknown providers, custom ones may bring their own default urls
+  getProvider(config.repoProvider, config.providers)
+  const customProvider = config.providers?.[config.repoProvider]
+  config.baseUrl = config.baseUrl
+    ?? customProvider?.baseUrl
+    ?? getRemoteBaseUrl(config, remote)
+    ?? providerToDomain[config.repoProvider as RepoProviderType]
+  config.baseUrlApi = config.baseUrlApi
+    ?? customProvider?.baseUrlApi
+    ?? getApiUrl(config.repoProvider, config.baseUrl)
   config.to = config.to || await getCurrentGitBranch()
   config.tagFilter = config.tagFilter ?? (() => true)
   config.tag = getSafeTagTemplate(config.tag ?? defaultConfig.tag)
@@ -51,10 +131,13 @@ export async function resolveConfig(options: ChangelogOptions) {
     config.tag,
   ) || await getFirstGitCommit()
   // @ts-expect-error backward compatibility
-  config.repo = config.repo || config.github || config.gitlab || await getGitRepo(config.baseUrl)
+  config.repo = config.repo || config.github || config.gitlab || await getGitRepo(config.baseUrl, config.remote)
   // @ts-expect-error backward compatibility
   config.releaseRepo = config.releaseRepo || config.releaseGithub || config.releaseGitlab || config.repo
   config.prerelease = config.prerelease ?? isPrerelease(config.to)
+  if (typeof config.releaseTemplates === 'string')
+    config.releaseTemplates = await loadTemplates(config.releaseTemplates)
+  Object.assign(config, localizeTitles(config))
 
   if (typeof config.repo !== 'string')
     throw new Error(`Invalid repository, expected a string but got ${JSON.stringify(config.repo)}`)
@@ -0,0 +1,107 @@
+import type { RawGitCommit } from 'changelogen'
+import type { Commit, CommitFilters } from './types'
+import { getCommitFiles } from './git'
+
+export interface DroppedCommit {
+  /**
+   * Short hash of the commit
+   */
+  hash: string
+  subject: string
+  reason: string
+}
+
+const DEFAULT_SKIP = ['[skip changelog]', 'Changelog: skip']
+
+/**
+ * `*` and `?` stay within a path segment, `**` spans segments.
+ * A pattern also matches everything inside the directories it matches.
+ */
+export function globToRegExp(glob: string) {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      i++
+      if (glob[i + 1] === '/') {
+        i++
+        source += '(?:.*/)?'
+      }
+      else {
+        source += '.*'
+      }
+    }
+    else if (char === '*') {
+      source += '[^/]*'
+    }
+    else if (char === '?') {
+      source += '[^/]'
+    }
+    else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source.replace(/\/$/, '')}(?:/.*)?$`)
+}
+
+function matchesAny(file: string, patterns: RegExp[]) {
+  return patterns.some(pattern => pattern.test(file))
+}
+
+function isAuthor(commit: Commit, names: string[]) {
+  const authors: { name: string, email: string, login?: string }[] = [commit.author, ...commit.authors || [], ...commit.resolvedAuthors || []]
+  const identities = authors.flatMap(author => [author.name, author.email, author.login || ''])
+    .filter(Boolean)
+    .map(identity => identity.toLowerCase())
+  return names.find(name => identities.includes(name.replace(/^@/, '').toLowerCase()))
+}
+
+/**
+ * Why `filters` drop a commit, undefined when it is kept.
+ * Path rules only apply to commits with known files, e.g. not to pull requests.
+ */
+export function getDropReason(commit: Commit, filters: CommitFilters = {}): string | undefined {
+  const message = `${commit.message}\n${commit.body}`.toLowerCase()
+  const keyword = (filters.skipKeywords ?? DEFAULT_SKIP).find(keyword => message.includes(keyword.toLowerCase()))
+  if (keyword)
+    return `marked with "${keyword}"`
+
+  const subject = filters.subjects?.find(pattern => new RegExp(pattern).test(commit.message))
+  if (subject)
+    return `subject matches ${subject}`
+
+  const author = filters.authors?.length ? isAuthor(commit, filters.authors) : undefined
+  if (author)
+    return `authored by ${author}`
+
+  const files = getCommitFiles(commit)
+  if (!files.length)
+    return undefined
+  const include = filters.include?.map(globToRegExp) || []
+  const exclude = filters.exclude?.map(globToRegExp) || []
+  if (include.length && !files.some(file => matchesAny(file, include)))
+    return `touches no file of ${filters.include!.join(', ')}`
+  if (exclude.length && files.every(file => matchesAny(file, exclude)))
+    return `only touches ${filters.exclude!.join(', ')}`
+  return undefined
+}
+
+/**
+ * Commits kept by `filters`, and the dropped ones with the reason
+ */
+export function filterCommits(commits: Commit[], filters?: CommitFilters) {
+  const kept: Commit[] = []
+  const dropped: DroppedCommit[] = []
+  for (const commit of commits) {
+    const reason = getDropReason(commit, filters)
+    if (reason)
+      dropped.push(toDropped(commit, reason))
+    else
+      kept.push(commit)
+  }
+  return { commits: kept, dropped }
+}
+
+export function toDropped(commit: RawGitCommit, reason: string): DroppedCommit {
+  return { hash: commit.shortHash, subject: commit.message, reason }
+}
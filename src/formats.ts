@@ -0,0 +1,224 @@
+import type { LocaleMessages } from './locales'
+import type { ReleaseTemplates } from './markdown'
+import type { ReleaseEntry, ReleaseNotes, ReleaseReference } from './notes'
+import type { OutputFormat, ResolvedChangelogOptions } from './types'
+import fs from 'node:fs/promises'
+import { extname } from 'node:path'
+import { getRefDate } from './git'
+import { formatMessage, resolveMessages } from './locales'
+import { formatSectionTitle, joinMessageList, renderNotes } from './markdown'
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom'
+
+/**
+ * Version of the `json` output format, increased on breaking changes of its shape.
+ * The document is described by `schema/release-notes.schema.json`.
+ */
+export const RELEASE_NOTES_SCHEMA_VERSION = 1
+
+const formats: OutputFormat[] = ['markdown', 'html', 'atom', 'json']
+
+const extensions: Record<string, OutputFormat> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.atom': 'atom',
+  '.xml': 'atom',
+  '.json': 'json',
+}
+
+/**
+ * `format` when set, otherwise inferred from the extension of `output`, markdown by default
+ */
+export function getOutputFormat(options: Pick<ResolvedChangelogOptions, 'format' | 'output'>): OutputFormat {
+  if (options.format) {
+    if (!formats.includes(options.format))
+      throw new Error(`Unknown format: ${options.format}, expected one of ${formats.join(', ')}`)
+    return options.format
+  }
+  if (typeof options.output === 'string')
+    return extensions[extname(options.output).toLowerCase()] || 'markdown'
+  return 'markdown'
+}
+
+export function escapeHtml(input: string) {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatHtmlReference(ref: ReleaseReference) {
+  const text = ref.type === 'hash' ? `<code>${ref.value.slice(0, 7)}</code>` : escapeHtml(`${ref.repo || ''}${ref.value}`)
+  return ref.url ? `<a href="${escapeHtml(ref.url)}">${text}</a>` : text
+}
+
+function formatHtmlEntry(entry: ReleaseEntry, messages: LocaleMessages) {
+  const authors = joinMessageList([...new Set(entry.authors.map(i => i.login ? `@${i.login}` : i.name))].map(escapeHtml), messages)
+  const refs = joinMessageList(entry.references.map(formatHtmlReference), messages)
+  const details = [
+    authors && formatMessage(escapeHtml(messages.by), authors),
+    refs && formatMessage(escapeHtml(messages.in), refs),
+    entry.hashes.map(formatHtmlReference).join(' '),
+  ].filter(Boolean).join(' ')
+  return `${escapeHtml(entry.description)}${details ? ` &mdash; ${details}` : ''}`
+}
+
+export const htmlTemplates: ReleaseTemplates = {
+  document(notes, { templates, ...ctx }) {
+    const sections = notes.sections.map(section => templates.section(section, { templates, ...ctx }))
+    return [
+      sections.join('\n') || `<p><em>${escapeHtml(ctx.messages.noChanges)}</em></p>`,
+      templates.footer(notes, { templates, ...ctx }),
+    ].join('\n')
+  },
+
+  section(section, ctx) {
+    const items: string[] = []
+    for (const scope of section.scopes) {
+      const entries = scope.entries.map(entry => ctx.templates.entry(entry, ctx))
+      const scopeText = `<strong>${escapeHtml(scope.title)}</strong>`
+      if (scope.nested)
+        items.push(`<li>${scopeText}:\n<ul>\n${entries.map(i => `<li>${i}</li>`).join('\n')}\n</ul>\n</li>`)
+      else
+        items.push(...entries.map(i => `<li>${scope.name ? `${scopeText}: ` : ''}${i}</li>`))
+    }
+    return [ctx.templates.title(section, ctx), '<ul>', ...items, '</ul>'].join('\n')
+  },
+
+  title(section, { options }) {
+    return `<h3>${escapeHtml(formatSectionTitle(section, options))}</h3>`
+  },
+
+  entry(entry, { messages }) {
+    return formatHtmlEntry(entry, messages)
+  },
+
+  footer(notes, { messages }) {
+    return `<p><a href="${escapeHtml(notes.compareUrl)}">${escapeHtml(messages.viewChanges)}</a></p>`
+  },
+}
+
+export function renderHtml(notes: ReleaseNotes, options: ResolvedChangelogOptions) {
+  return renderNotes(notes, options, htmlTemplates)
+}
+
+/**
+ * Release notes as plain data, without the parsed commits they were built from
+ */
+export function serializeReleaseNotes(notes: ReleaseNotes) {
+  return {
+    from: notes.from,
+    to: notes.to,
+    repo: notes.repo,
+    compareUrl: notes.compareUrl,
+    sections: notes.sections.map(section => ({
+      kind: section.kind,
+      key: section.key,
+      title: section.title,
+      entries: section.entries.map(entry => ({
+        type: entry.type,
+        scope: entry.scope,
+        description: entry.description,
+        isBreaking: entry.isBreaking,
+        hash: entry.commit.shortHash,
+        references: entry.references,
+        authors: entry.authors.map(({ name, login }) => ({ name, login })),
+      })),
+    })),
+    authors: notes.authors.map(({ name, login }) => ({ name, login })),
+  }
+}
+
+function getFeedEntryId(notes: ReleaseNotes) {
+  return `urn:changelogits:${notes.repo}:${notes.to}`
+}
+
+/**
+ * A single Atom `<entry>` of the release, with the notes as HTML content
+ */
+export function renderAtomEntry(notes: ReleaseNotes, options: ResolvedChangelogOptions, updated = new Date().toISOString()) {
+  return [
+    '<entry>',
+    `  <id>${escapeHtml(getFeedEntryId(notes))}</id>`,
+    `  <title>${escapeHtml(String(options.name || notes.to))}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <link href="${escapeHtml(notes.compareUrl)}"/>`,
+    `  <content type="html">${escapeHtml(renderHtml(notes, options))}</content>`,
+    '</entry>',
+  ].join('\n')
+}
+
+/**
+ * Add an entry to an Atom feed, replacing the entry with the same id.
+ * A new feed is created when `content` is empty.
+ */
+export function updateFeed(content: string | undefined, entry: string, feed: { id: string, title: string, link: string, updated: string }) {
+  const indented = entry.split('\n').map(line => `  ${line}`).join('\n')
+
+  if (!content?.trim()) {
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      `<feed xmlns="${ATOM_NS}">`,
+      `  <id>${escapeHtml(feed.id)}</id>`,
+      `  <title>${escapeHtml(feed.title)}</title>`,
+      `  <updated>${feed.updated}</updated>`,
+      `  <link href="${escapeHtml(feed.link)}"/>`,
+      indented,
+      '</feed>',
+      '',
+    ].join('\n')
+  }
+
+  const id = /<id>(.*?)<\/id>/.exec(entry)?.[1]
+  // drop the previous entry of the same release, including its indentation
+  content = content.replace(/[ \t]*<entry>[\s\S]*?<\/entry>[ \t]*\n?/g, match => id && match.includes(`<id>${id}</id>`) ? '' : match)
+
+  const firstEntry = content.search(/[ \t]*<entry>/)
+  const at = firstEntry === -1 ? content.lastIndexOf('</feed>') : firstEntry
+  if (at === -1)
+    throw new Error('Invalid Atom feed, missing </feed>')
+
+  // the `updated` of the feed is the one before its entries
+  const head = content.slice(0, at).replace(/<updated>[^<]*<\/updated>/, `<updated>${feed.updated}</updated>`)
+  return `${head}${indented}\n${content.slice(at)}`
+}
+
+/**
+ * Write the release notes to `output` in the format of the file
+ */
+export async function writeOutput(config: ResolvedChangelogOptions, notes: ReleaseNotes, md: string) {
+  const path = config.output as string
+  const format = getOutputFormat(config)
+
+  if (format === 'atom') {
+    // the date of the tag, so that backfilled entries are not all dated today
+    const date = await getRefDate(notes.to).catch(() => '')
+    const updated = date ? `${date}T00:00:00Z` : new Date().toISOString()
+    const content = await fs.readFile(path, 'utf-8').catch(() => undefined)
+    const feed = updateFeed(content, renderAtomEntry(notes, config, updated), {
+      id: `urn:changelogits:${notes.repo}`,
+      title: formatMessage(resolveMessages(config).feedTitle, String(notes.repo)),
+      link: `${config.baseUrl}/${notes.repo}`,
+      updated,
+    })
+    await fs.writeFile(path, feed, 'utf-8')
+    return path
+  }
+
+  await fs.writeFile(path, renderOutput(format, notes, md, config), 'utf-8')
+  return path
+}
+
+/**
+ * The release notes in `format`, an Atom feed is rendered as its entry
+ */
+export function renderOutput(format: OutputFormat, notes: ReleaseNotes, md: string, options: ResolvedChangelogOptions) {
+  if (format === 'html')
+    return renderHtml(notes, options)
+  if (format === 'atom')
+    return renderAtomEntry(notes, options)
+  if (format === 'json')
+    return `${JSON.stringify({ schemaVersion: RELEASE_NOTES_SCHEMA_VERSION, ...serializeReleaseNotes(notes), md }, null, 2)}\n`
+  return md
+}
@@ -1,18 +1,71 @@
-import type { ChangelogOptions } from './types'
+import type { RawGitCommit } from 'changelogen'
+import type { DroppedCommit } from './filters'
+import type { ChangelogOptions, Commit } from './types'
 import { getGitDiff } from 'changelogen'
 import { resolveConfig } from './config'
-import { generateMarkdown } from './markdown'
+import { filterCommits, toDropped } from './filters'
+import { getOutputFormat, renderOutput } from './formats'
+import { getCommitFiles } from './git'
+import { getNotesLayout, renderMarkdown } from './markdown'
+import { buildReleaseNotes } from './notes'
 import { parseCommits } from './parse'
 import { resolveAuthors } from './providers'
+import { hasLabelRules, parsePullRequests, resolveLabels } from './pulls'
+import { createSession } from './session'
 
+function touchesPaths(commit: RawGitCommit, paths: string[]) {
+  const dirs = paths.map(path => path.replace(/\/+$/, ''))
+  return getCommitFiles(commit).some(file => dirs.some(dir => dir === '.' || file === dir || file.startsWith(`${dir}/`)))
+}
+
+/**
+ * Every call starts a new session, which is returned for the release calls of the same run.
+ * `content` holds the release notes in the `format` of the config,
+ * `dropped` the commits left out of them with the reason.
+ */
 export async function generate(options: ChangelogOptions) {
   const resolved = await resolveConfig(options)
+  const session = createSession(resolved)
+
+  const dropped: DroppedCommit[] = []
+  let rawCommits = await getGitDiff(resolved.from, resolved.to)
+  if (resolved.paths?.length) {
+    const outside = rawCommits.filter(commit => !touchesPaths(commit, resolved.paths!))
+    dropped.push(...outside.map(commit => toDropped(commit, `outside of ${resolved.paths!.join(', ')}`)))
+    rawCommits = rawCommits.filter(commit => !outside.includes(commit))
+  }
+  let commits: Commit[]
+  if (resolved.source === 'pull-requests') {
+    const parsed = await parsePullRequests(rawCommits, resolved, session)
+    commits = parsed.commits
+    dropped.push(...parsed.dropped)
+  }
+  else {
+    commits = parseCommits(rawCommits, resolved)
+    const parsed = new Set(commits.map(c => c.shortHash))
+    dropped.push(...rawCommits.filter(c => !parsed.has(c.shortHash)).map(c => toDropped(c, 'not a conventional commit')))
+  }
+
+  const filtered = filterCommits(commits, resolved.filters)
+  commits = filtered.commits
+  dropped.push(...filtered.dropped)
 
-  const rawCommits = await getGitDiff(resolved.from, resolved.to)
-  const commits = parseCommits(rawCommits, resolved)
+  if (hasLabelRules(resolved)) {
+    await resolveLabels(commits, resolved, session)
+    const exclude = resolved.labels.exclude || []
+    for (const commit of commits) {
+      const label = commit.labels?.find(label => exclude.includes(label))
+      if (label)
+        dropped.push(toDropped(commit, `labeled ${label}`))
+    }
+    commits = commits.filter(c => !c.labels?.some(label => exclude.includes(label)))
+  }
+  // pull requests already carry their author
   if (resolved.contributors)
-    await resolveAuthors(commits, resolved)
-  const md = generateMarkdown(commits, resolved)
+    await resolveAuthors(commits.filter(c => !c.resolvedAuthors), resolved, session)
+  const notes = buildReleaseNotes(commits, resolved, getNotesLayout(resolved))
+  const md = renderMarkdown(notes, resolved)
+  const content = renderOutput(getOutputFormat(resolved), notes, md, resolved)
 
-  return { config: resolved, md, commits }
+  return { config: resolved, md, content, notes, commits, dropped, session }
 }
@@ -1,19 +1,36 @@
+import type { RawGitCommit } from 'changelogen'
 import semver from 'semver'
+import { getRepoFromRemote, parseRemoteUrl } from './remote'
+
+/**
+ * URL of a git remote. `remote` is either the name of a remote or a URL,
+ * defaults to `origin`, or the first configured remote if there is no `origin`.
+ */
+export async function getGitRemoteUrl(remote?: string): Promise<string | undefined> {
+  if (remote && /[:/]/.test(remote))
+    return remote
+  try {
+    return await execCommand('git', ['remote', 'get-url', remote || 'origin'])
+  }
+  catch {
+    if (remote)
+      throw new Error(`Git remote "${remote}" does not exist`)
+  }
+  const remotes = await execCommand('git', ['remote']).catch(() => '')
+  const first = remotes.split('\n').find(Boolean)
+  return first ? await execCommand('git', ['remote', 'get-url', first]) : undefined
+}
 
-export async function getGitRepo(baseUrl: string) {
-  const url = await execCommand('git', ['config', '--get', 'remote.origin.url'])
-  const baseUrlLength = baseUrl.length
-  const index = url.indexOf(baseUrl)
-  if (index === -1) {
+export async function getGitRepo(baseUrl: string, remote?: string) {
+  const url = await getGitRemoteUrl(remote)
+  if (!url)
+    throw new Error('Can not find a git remote, specify the repository via `repo`')
+  const parsed = parseRemoteUrl(url)
+  const repo = parsed && getRepoFromRemote(parsed, baseUrl)
+  if (!repo) {
     throw new Error(`Can not parse Git repo from url ${url}`)
   }
-  const newUrl = url.slice(index + baseUrlLength)
-  const cleanUrl = newUrl
-    .replace(baseUrl, '')
-    .replace(/\.git$/, '')
-  return cleanUrl.split('/')
-    .filter(Boolean)
-    .join('/')
+  return repo
 }
 
 export async function getCurrentGitBranch() {
@@ -28,7 +45,28 @@ export function getSafeTagTemplate(template: string) {
   return template.includes('%s') ? template : `${template}%s`
 }
 
-function getVersionString(template: string, tag: string) {
+/**
+ * Tag of `version` from a tag template, e.g. `v1.2.0` for `v%s`
+ */
+export function getTagString(template: string, version: string) {
+  return getSafeTagTemplate(template).replace(/%s/g, version)
+}
+
+export function escapeRegExp(input: string) {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Semver version of a tag made from the template, undefined when the tag does not match it,
+ * unlike `getVersionString` which returns unmatched tags as is
+ */
+export function getTagVersion(template: string, tag: string): string | undefined {
+  const pattern = getSafeTagTemplate(template).split('%s').map(escapeRegExp).join('(.+)')
+  const version = new RegExp(`^${pattern}$`).exec(tag)?.[1]
+  return (version && semver.valid(version)) || undefined
+}
+
+export function getVersionString(template: string, tag: string) {
   const pattern = template.replace(/%s/g, '(.+)')
   const regex = new RegExp(`^${pattern}$`)
   const match = regex.exec(tag)
@@ -61,12 +99,22 @@ export async function getLastMatchingTag(
   inputTag: string,
   tagFilter: (tag: string) => boolean,
   tagTemplate: string,
+) {
+  const tags = await getGitTags()
+  return selectLastMatchingTag(inputTag, tags.filter(tagFilter), tagTemplate)
+}
+
+/**
+ * The tag to compare `inputTag` with, out of `filteredTags` ordered from newest to oldest
+ */
+export function selectLastMatchingTag(
+  inputTag: string,
+  filteredTags: string[],
+  tagTemplate: string,
 ) {
   const inputVersionString = getVersionString(tagTemplate, inputTag)
   const isVersion = semver.valid(inputVersionString) !== null
   const isPrerelease = semver.prerelease(inputVersionString) !== null
-  const tags = await getGitTags()
-  const filteredTags = tags.filter(tagFilter)
 
   let tag: string | undefined
   // Doing a stable release, find the last stable release to compare with
@@ -85,16 +133,76 @@ export async function getLastMatchingTag(
   return tag
 }
 
+/**
+ * Tags pointing at `ref`
+ */
+export async function getRefTags(ref: string) {
+  return (await execCommand('git', ['tag', '--points-at', ref])).split('\n').filter(Boolean)
+}
+
+/**
+ * Files touched by a commit of `getGitDiff`, read from the `--name-status` lines
+ * at the end of its body. Renamed and copied files count with both paths.
+ */
+export function getCommitFiles(commit: RawGitCommit) {
+  return [...commit.body.matchAll(/^[ACDMRT]\d*\t(.+)$/gm)].flatMap(match => match[1].split('\t'))
+}
+
 export async function isRefGitTag(to: string) {
   const { execa } = await import('execa')
   try {
     await execa('git', ['show-ref', '--verify', `refs/tags/${to}`], { reject: true })
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+export async function isRefGitBranch(ref: string) {
+  const { execa } = await import('execa')
+  try {
+    await execa('git', ['show-ref', '--verify', `refs/heads/${ref}`], { reject: true })
+    return true
   }
   catch {
     return false
   }
 }
 
+export async function commitFiles(files: string[], message: string) {
+  await execCommand('git', ['add', '--', ...files])
+  await execCommand('git', ['commit', '-m', message, '--', ...files])
+}
+
+/**
+ * Full hash of the commit `ref` points to
+ */
+export async function getRefCommit(ref: string) {
+  return await execCommand('git', ['rev-parse', '--verify', `${ref}^{commit}`])
+}
+
+/**
+ * Create an annotated tag at `HEAD`, signed when `sign` is set
+ */
+export async function createGitTag(tag: string, message = tag, sign = false) {
+  await execCommand('git', ['tag', sign ? '-s' : '-a', '-m', message, tag])
+}
+
+/**
+ * Push `HEAD` with its annotated tags, to the upstream branch when `remote` is not set
+ */
+export async function pushWithTags(remote?: string) {
+  await execCommand('git', remote ? ['push', '--follow-tags', remote, 'HEAD'] : ['push', '--follow-tags'])
+}
+
+/**
+ * Committer date of a ref as `YYYY-MM-DD`
+ */
+export async function getRefDate(ref: string) {
+  return await execCommand('git', ['log', '-1', '--format=%cs', ref])
+}
+
 export async function getFirstGitCommit() {
   return await execCommand('git', ['rev-list', '--max-parents=0', 'HEAD'])
 }
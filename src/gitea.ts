@@ -0,0 +1,152 @@
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit } from './types'
+/* eslint-disable no-console */
+import { cyan, green } from 'ansis'
+import { expandAssets, uploadEachAsset } from './assets'
+import { resolveAuthorsWithCache } from './authors'
+import { isNotFound, warn } from './http'
+import { createSession } from './session'
+
+// Gitea and Forgejo share the same REST API (Forgejo is a hard fork of Gitea),
+// so a single implementation covers both.
+// https://docs.gitea.com/api/1.22/
+
+async function getRelease(options: ChangelogOptions, session: ReleaseSession) {
+  return await session.request<{
+    id: number
+    html_url: string
+    [x: string]: any
+  }>(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/tags/${encodeURIComponent(options.to!)}`, {
+    headers: getHeaders(options),
+  })
+}
+
+export async function sendRelease(
+  options: ChangelogOptions,
+  content: string,
+  session = createSession(options),
+) {
+  const headers = getHeaders(options)
+  let url = `${options.baseUrlApi}/repos/${options.releaseRepo}/releases`
+  let method = 'POST'
+
+  try {
+    const exists = await getRelease(options, session)
+    if (exists.id) {
+      url = `${options.baseUrlApi}/repos/${options.releaseRepo}/releases/${exists.id}`
+      method = 'PATCH'
+    }
+  }
+  catch (error) {
+    // only a missing release is created, a duplicate would be created on any other failure
+    if (!isNotFound(error))
+      throw error
+  }
+
+  const body = {
+    body: content,
+    draft: options.draft || false,
+    name: options.name || options.to,
+    prerelease: options.prerelease,
+    tag_name: options.to,
+  }
+  console.log(cyan(method === 'POST'
+    ? 'Creating release notes...'
+    : 'Updating release notes...'),
+  )
+  const res = await session.request(url, {
+    method,
+    body: JSON.stringify(body),
+    headers,
+  })
+  console.log(green(`Released on ${res.html_url}`))
+  return res.html_url as string
+}
+
+function getHeaders(options: ChangelogOptions) {
+  return {
+    'accept': 'application/json',
+    'Content-Type': 'application/json',
+    'authorization': `token ${options.token}`,
+  }
+}
+
+export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo, session = createSession(options)) {
+  if (info.login)
+    return info
+
+  // token not provided, skip gitea resolving
+  if (!options.token)
+    return info
+
+  try {
+    // Gitea only matches emails the user has made public (or every email for admins)
+    const data = await session.request(`${options.baseUrlApi}/users/search?q=${encodeURIComponent(info.email)}&limit=1`, {
+      headers: getHeaders(options),
+    })
+    const user = data.data?.find((u: any) => u.email === info.email)
+    if (user)
+      info.login = user.login
+  }
+  catch (error) {
+    if (!isNotFound(error))
+      warn(`Failed to resolve the login of ${info.email}`, error)
+  }
+
+  if (info.login)
+    return info
+
+  if (info.commits.length) {
+    try {
+      const data = await session.request(`${options.baseUrlApi}/repos/${options.repo}/git/commits/${info.commits[0]}`, {
+        headers: getHeaders(options),
+      })
+      info.login = data.author?.login || undefined
+    }
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the login of ${info.email}`, error)
+    }
+  }
+
+  return info
+}
+
+export async function resolveAuthors(commits: Commit[], options: ChangelogOptions, session = createSession(options)) {
+  return resolveAuthorsWithCache(commits, options, info => resolveAuthorInfo(options, info, session))
+}
+
+export async function hasTagOnGitea(tag: string, options: ChangelogOptions, session = createSession(options)) {
+  try {
+    await session.request(`${options.baseUrlApi}/repos/${options.repo}/tags/${encodeURIComponent(tag)}`, {
+      headers: getHeaders(options),
+    })
+    return true
+  }
+  catch (error) {
+    if (isNotFound(error))
+      return false
+    throw error
+  }
+}
+
+export async function uploadAssets(options: ChangelogOptions, assets: string | string[], session = createSession(options)) {
+  const expandedAssets = await expandAssets(assets)
+
+  // Get the release by tag to obtain its id
+  const release = await getRelease(options, session)
+
+  await uploadEachAsset(expandedAssets, async (fileName, fileData) => {
+    // Gitea expects a multipart form with the file in the `attachment` field
+    const form = new FormData()
+    form.append('attachment', new Blob([fileData], { type: 'application/octet-stream' }), fileName)
+    await session.request(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/${release.id}/assets?name=${encodeURIComponent(fileName)}`, {
+      method: 'POST',
+      headers: {
+        accept: 'application/json',
+        authorization: `token ${options.token}`,
+      },
+      body: form,
+    })
+  })
+}
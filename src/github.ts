@@ -1,22 +1,25 @@
-import type { AuthorInfo, ChangelogOptions, Commit } from './types'
-import fs from 'node:fs/promises'
-import path from 'node:path'
+import type { RawGitCommit } from 'changelogen'
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit, PullRequestInfo } from './types'
 /* eslint-disable no-console */
-import { notNullish } from '@antfu/utils'
-import { cyan, green, red } from 'ansis'
-import { $fetch } from 'ofetch'
-import { glob } from 'tinyglobby'
+import { cyan, green } from 'ansis'
+import { expandAssets, uploadEachAsset } from './assets'
+import { getAuthType, getGitHubAppToken, hasAuth } from './auth'
+import { resolveAuthorsWithCache } from './authors'
+import { isNotFound, mapWithConcurrency, warn } from './http'
+import { createSession } from './session'
 
 export async function sendRelease(
   options: ChangelogOptions,
   content: string,
+  session = createSession(options),
 ) {
-  const headers = getHeaders(options)
+  const headers = await getHeaders(options, session)
   let url = `${options.baseUrlApi}/repos/${options.releaseRepo}/releases`
   let method = 'POST'
 
   try {
-    const exists = await $fetch(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/tags/${options.to}`, {
+    const exists = await session.request(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/tags/${options.to}`, {
       headers,
     })
     if (exists.url) {
@@ -24,7 +27,10 @@ export async function sendRelease(
       method = 'PATCH'
     }
   }
-  catch {
+  catch (error) {
+    // only a missing release is created, a duplicate would be created on any other failure
+    if (!isNotFound(error))
+      throw error
   }
 
   const body = {
@@ -38,7 +44,7 @@ export async function sendRelease(
     ? 'Creating release notes...'
     : 'Updating release notes...'),
   )
-  const res = await $fetch(url, {
+  const res = await session.request(url, {
     method,
     body: JSON.stringify(body),
     headers,
@@ -47,175 +53,208 @@ export async function sendRelease(
   return res.html_url as string
 }
 
-function getHeaders(options: ChangelogOptions) {
+async function getHeaders(options: ChangelogOptions, session: ReleaseSession) {
+  const token = getAuthType(options) === 'github-app'
+    ? await getGitHubAppToken(options, session)
+    : options.token
   return {
     accept: 'application/vnd.github.v3+json',
-    authorization: `token ${options.token}`,
+    authorization: `token ${token}`,
   }
 }
 
-const excludeAuthors = [
-  /\[bot\]/i,
-  /dependabot/i,
-  /\(bot\)/i,
-]
-
-export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo) {
+export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo, session = createSession(options)) {
   if (info.login)
     return info
 
   // token not provided, skip github resolving
-  if (!options.token)
+  if (!hasAuth(options))
     return info
 
   try {
     // https://docs.github.com/en/search-github/searching-on-github/searching-users#search-only-users-or-organizations
     const q = encodeURIComponent(`${info.email} type:user in:email`)
-    const data = await $fetch(`${options.baseUrlApi}/search/users?q=${q}`, {
-      headers: getHeaders(options),
+    const data = await session.request(`${options.baseUrlApi}/search/users?q=${q}`, {
+      headers: await getHeaders(options, session),
     })
-    info.login = data.items[0].login
+    info.login = data.items[0]?.login
+  }
+  catch (error) {
+    if (!isNotFound(error))
+      warn(`Failed to resolve the login of ${info.email}`, error)
   }
-  catch {}
 
   if (info.login)
     return info
 
   if (info.commits.length) {
     try {
-      const data = await $fetch(`${options.baseUrlApi}/repos/${options.repo}/commits/${info.commits[0]}`, {
-        headers: getHeaders(options),
+      const data = await session.request(`${options.baseUrlApi}/repos/${options.repo}/commits/${info.commits[0]}`, {
+        headers: await getHeaders(options, session),
       })
-      info.login = data.author.login
+      info.login = data.author?.login
+    }
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the login of ${info.email}`, error)
     }
-    catch {}
   }
 
   return info
 }
 
-export async function resolveAuthors(commits: Commit[], options: ChangelogOptions) {
-  const map = new Map<string, AuthorInfo>()
-  commits.forEach((commit) => {
-    commit.resolvedAuthors = commit.authors.map((a, idx) => {
-      if (!a.email || !a.name)
-        return null
-      if (excludeAuthors.some(re => re.test(a.name)))
-        return null
-      if (!map.has(a.email)) {
-        map.set(a.email, {
-          commits: [],
-          name: a.name,
-          email: a.email,
-        })
-      }
-      const info = map.get(a.email)!
-
-      // record commits only for the first author
-      if (idx === 0)
-        info.commits.push(commit.shortHash)
+const GRAPHQL_BATCH_SIZE = 50
 
-      return info
-    }).filter(notNullish)
-  })
-  const authors = Array.from(map.values())
-  const resolved = await Promise.all(authors.map(info => resolveAuthorInfo(options, info)))
-
-  const loginSet = new Set<string>()
-  const nameSet = new Set<string>()
-  return resolved
-    .sort((a, b) => (a.login || a.name).localeCompare(b.login || b.name))
-    .filter((i) => {
-      if (i.login && loginSet.has(i.login))
-        return false
-      if (i.login) {
-        loginSet.add(i.login)
-      }
-      else {
-        if (nameSet.has(i.name))
-          return false
-        nameSet.add(i.name)
-      }
-      return true
-    })
+function getGraphQLUrl(options: ChangelogOptions) {
+  // GitHub Enterprise serves REST under `/api/v3` and GraphQL under `/api/graphql`
+  const api = String(options.baseUrlApi).replace(/\/+$/, '')
+  return /\/api\/v3$/.test(api)
+    ? api.replace(/\/v3$/, '/graphql')
+    : `${api}/graphql`
 }
 
-export async function hasTagOnGitHub(tag: string, options: ChangelogOptions) {
-  try {
-    await $fetch(`${options.baseUrlApi}/repos/${options.repo}/git/ref/tags/${tag}`, {
-      headers: getHeaders(options),
-    })
-    return true
-  }
-  catch {
-    return false
-  }
-}
+/**
+ * Resolve the logins of commit authors in batches of aliased `repository.object` lookups,
+ * instead of one REST request per author. Authors that stay unresolved fall back to REST.
+ */
+async function resolveLoginsWithGraphQL(options: ChangelogOptions, session: ReleaseSession, authors: AuthorInfo[]) {
+  // GraphQL always requires authentication
+  if (!hasAuth(options))
+    return
 
-export async function uploadAssets(options: ChangelogOptions, assets: string | string[]) {
-  const headers = getHeaders(options)
-  let assetList: string[] = []
-  if (typeof assets === 'string') {
-    assetList = assets.split(',').map(s => s.trim()).filter(Boolean)
-  }
-  else if (Array.isArray(assets)) {
-    assetList = assets.flatMap(item =>
-      typeof item === 'string' ? item.split(',').map(s => s.trim()) : [],
-    ).filter(Boolean)
-  }
+  const pending = authors.filter(info => info.commits.length)
+  const [owner, name] = String(options.repo).split('/')
+  for (let i = 0; i < pending.length; i += GRAPHQL_BATCH_SIZE) {
+    const batch = pending.slice(i, i + GRAPHQL_BATCH_SIZE)
+    // `object(oid:)` requires full hashes, `expression` also accepts the short ones from `git log`
+    const params = batch.map((_, idx) => `$c${idx}: String!`)
+    const fields = batch.map((_, idx) => `c${idx}: object(expression: $c${idx}) { ... on Commit { author { user { login } } } }`)
+    const query = `query($owner: String!, $name: String!, ${params.join(', ')}) { repository(owner: $owner, name: $name) { ${fields.join(' ')} } }`
+    const variables: Record<string, string> = { owner, name }
+    batch.forEach((info, idx) => variables[`c${idx}`] = info.commits[0])
 
-  // Expand glob patterns to actual file paths
-  const expandedAssets: string[] = []
-  for (const pattern of assetList) {
     try {
-      // Use the pattern directly without shell expansion
-      const matches = await glob(pattern)
-      if (matches.length) {
-        expandedAssets.push(...matches)
-      }
-      else {
-        // If no matches found, treat as literal path
-        expandedAssets.push(pattern)
-      }
+      const res = await session.request(getGraphQLUrl(options), {
+        method: 'POST',
+        headers: await getHeaders(options, session),
+        body: JSON.stringify({ query, variables }),
+      })
+      const repository = res.data?.repository
+      if (!repository)
+        throw new Error(res.errors?.[0]?.message || 'Unexpected GraphQL response')
+      batch.forEach((info, idx) => {
+        info.login = repository[`c${idx}`]?.author?.user?.login || undefined
+      })
     }
     catch (error) {
-      console.error(red(`Failed to process glob pattern "${pattern}": ${error}`))
-      // Keep the original pattern as fallback
-      expandedAssets.push(pattern)
+      // e.g. older GitHub Enterprise without GraphQL, resolve everyone through REST instead
+      if (!isNotFound(error))
+        warn('Failed to resolve authors through GraphQL, falling back to REST', error)
+      return
     }
   }
+}
 
-  // Get the release by tag to obtain the upload_url
-  const release = await $fetch(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/tags/${options.to}`, {
-    headers,
-  })
+export async function resolveAuthors(commits: Commit[], options: ChangelogOptions, session = createSession(options)) {
+  return resolveAuthorsWithCache(
+    commits,
+    options,
+    info => resolveAuthorInfo(options, info, session),
+    uncached => resolveLoginsWithGraphQL(options, session, uncached),
+  )
+}
+
+export async function resolvePullRequests(commits: RawGitCommit[], options: ChangelogOptions, session = createSession(options)) {
+  const pulls = new Map<number, PullRequestInfo>()
+  const result = new Map<string, PullRequestInfo>()
 
-  for (const asset of expandedAssets) {
-    const filePath = path.resolve(asset)
+  await mapWithConcurrency(commits, options.concurrency || 5, async (commit) => {
     try {
-      const fileData = await fs.readFile(filePath)
-      const fileName = path.basename(filePath)
-      const contentType = 'application/octet-stream'
-
-      const uploadUrl = release.upload_url.replace('{?name,label}', `?name=${encodeURIComponent(fileName)}`)
-      console.log(cyan(`Uploading ${fileName}...`))
-      try {
-        await $fetch(uploadUrl, {
-          method: 'POST',
-          headers: {
-            ...headers,
-            'Content-Type': contentType,
-          },
-          body: fileData,
+      // https://docs.github.com/en/rest/commits/commits#list-pull-requests-associated-with-a-commit
+      const data = await session.request<any[]>(`${options.baseUrlApi}/repos/${options.repo}/commits/${commit.shortHash}/pulls`, {
+        headers: await getHeaders(options, session),
+      })
+      const pr = data.find(i => i.merged_at)
+      if (!pr)
+        return
+      if (!pulls.has(pr.number)) {
+        pulls.set(pr.number, {
+          number: pr.number,
+          title: pr.title,
+          body: pr.body || '',
+          url: pr.html_url,
+          labels: (pr.labels || []).map((l: any) => l.name),
+          author: pr.user?.login,
+          mergeCommit: pr.merge_commit_sha || undefined,
         })
-        console.log(green(`Uploaded ${fileName} successfully.`))
-      }
-      catch (error) {
-        console.error(red(`Failed to upload ${fileName}: ${error}`))
       }
+      result.set(commit.shortHash, pulls.get(pr.number)!)
     }
     catch (error) {
-      console.error(red(`Failed to read file ${filePath}: ${error}`))
+      if (!isNotFound(error))
+        warn(`Failed to resolve the pull request of ${commit.shortHash}`, error)
     }
+  })
+
+  return result
+}
+
+export async function hasTagOnGitHub(tag: string, options: ChangelogOptions, session = createSession(options)) {
+  try {
+    await session.request(`${options.baseUrlApi}/repos/${options.repo}/git/ref/tags/${tag}`, {
+      headers: await getHeaders(options, session),
+    })
+    return true
+  }
+  catch (error) {
+    // anything but a missing tag (e.g. an exhausted rate limit) should not skip the release
+    if (isNotFound(error))
+      return false
+    throw error
+  }
+}
+
+/**
+ * Create the tag `tag` at `sha`, annotated with `message` when set
+ */
+export async function createTagOnGitHub(tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session = createSession(options)) {
+  const headers = await getHeaders(options, session)
+  let object = sha
+  // an annotated tag is an object of its own, which the ref then points to
+  if (message) {
+    const annotated = await session.request<{ sha: string }>(`${options.baseUrlApi}/repos/${options.repo}/git/tags`, {
+      method: 'POST',
+      body: JSON.stringify({ tag, message, object: sha, type: 'commit' }),
+      headers,
+    })
+    object = annotated.sha
   }
+  await session.request(`${options.baseUrlApi}/repos/${options.repo}/git/refs`, {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/tags/${tag}`, sha: object }),
+    headers,
+  })
+  console.log(green(`Created tag ${tag} at ${sha.slice(0, 7)}`))
+}
+
+export async function uploadAssets(options: ChangelogOptions, assets: string | string[], session = createSession(options)) {
+  const headers = await getHeaders(options, session)
+  const expandedAssets = await expandAssets(assets)
+
+  // Get the release by tag to obtain the upload_url
+  const release = await session.request(`${options.baseUrlApi}/repos/${options.releaseRepo}/releases/tags/${options.to}`, {
+    headers,
+  })
+
+  await uploadEachAsset(expandedAssets, async (fileName, fileData) => {
+    const uploadUrl = release.upload_url.replace('{?name,label}', `?name=${encodeURIComponent(fileName)}`)
+    await session.request(uploadUrl, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/octet-stream',
+      },
+      body: fileData,
+    })
+  })
 }
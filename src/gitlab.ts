@@ -1,51 +1,58 @@
-import type { AuthorInfo, ChangelogOptions, Commit } from './types'
-import fs from 'node:fs/promises'
-import path from 'node:path'
+import type { RawGitCommit } from 'changelogen'
+import type { Buffer } from 'node:buffer'
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit, GitLabAssetLinkType, PullRequestInfo } from './types'
 import process from 'node:process'
 /* eslint-disable no-console */
-import { notNullish } from '@antfu/utils'
-import { cyan, green, red } from 'ansis'
-import { $fetch } from 'ofetch'
-import { glob } from 'tinyglobby'
-
-// 模块级缓存：避免每次都请求 GitLab 获取项目 ID
-let localProjectId: number | undefined
-const envProjectId = process.env.GITLAB_PROJECT_ID
-if (envProjectId) {
-  const parsed = Number.parseInt(envProjectId, 10)
-  if (!Number.isNaN(parsed))
-    localProjectId = parsed
-}
-
-export async function getProjectId(options: ChangelogOptions): Promise<number> {
-  // 如果已经在模块级缓存中，直接返回
-  if (typeof localProjectId === 'number' && !Number.isNaN(localProjectId))
-    return localProjectId
-
-  // 通过 API 请求获取并写入缓存
-  const headers = getHeaders(options)
-  // GitLab uses URL-encoded project path (e.g., "group%2Fproject")
-  const encodedRepo = encodeURIComponent(options.releaseRepo as string)
-  const url = `${options.baseUrlApi}/projects/${encodedRepo}`
-  const data = await $fetch<{
-    id: number
-    [x: string]: any
-  }>(url, {
-    headers,
+import { cyan, green } from 'ansis'
+import { expandAssets, uploadEachAsset } from './assets'
+import { assertJobTokenAllows, getAuthType } from './auth'
+import { resolveAuthorsWithCache } from './authors'
+import { isRefGitTag } from './git'
+import { isNotFound, mapWithConcurrency, warn } from './http'
+import { createSession, memo } from './session'
+
+/**
+ * Resolve the numeric id of a project from its path, once per session and project.
+ * `GITLAB_PROJECT_ID` is used for `releaseRepo`, and `CI_PROJECT_ID` for the project
+ * of the running pipeline, without an API call.
+ */
+export async function getProjectId(
+  options: ChangelogOptions,
+  repo = options.releaseRepo as string,
+  session = createSession(options),
+): Promise<number> {
+  return memo(session, `gitlab:project:${repo}`, async () => {
+    const envProjectId = Number.parseInt(process.env.GITLAB_PROJECT_ID || '', 10)
+    if (repo === options.releaseRepo && !Number.isNaN(envProjectId))
+      return envProjectId
+    const ciProjectId = Number.parseInt(process.env.CI_PROJECT_ID || '', 10)
+    if (repo === process.env.CI_PROJECT_PATH && !Number.isNaN(ciProjectId))
+      return ciProjectId
+    assertJobTokenAllows(options, `look up the id of ${repo}`, 'set `GITLAB_PROJECT_ID` or use an access token instead')
+
+    // GitLab uses URL-encoded project path (e.g., "group%2Fproject")
+    const url = `${options.baseUrlApi}/projects/${encodeURIComponent(repo)}`
+    const data = await session.request<{
+      id: number
+      [x: string]: any
+    }>(url, {
+      headers: getHeaders(options),
+    })
+    if (!data || typeof data.id !== 'number') {
+      throw new Error(`Cannot get the item id in url ${url}`)
+    }
+    return data.id
   })
-  if (!data || typeof data.id !== 'number') {
-    throw new Error(`Cannot get the item id in url ${url}`)
-  }
-  localProjectId = data.id
-  return localProjectId
 }
 
 export async function sendRelease(
   options: ChangelogOptions,
   content: string,
+  session = createSession(options),
 ) {
   const headers = getHeaders(options)
-  const projectId = await getProjectId(options)
+  const projectId = await getProjectId(options, options.releaseRepo as string, session)
 
   let url = `${options.baseUrlApi}/projects/${projectId}/releases`
   let method = 'POST'
@@ -53,16 +60,18 @@ export async function sendRelease(
 
   // Check if release already exists
   try {
-    existingRelease = await $fetch(`${options.baseUrlApi}/projects/${projectId}/releases/${options.to}`, {
+    existingRelease = await session.request(`${options.baseUrlApi}/projects/${projectId}/releases/${encodeURIComponent(options.to!)}`, {
       headers,
     })
     if (existingRelease) {
-      url = `${options.baseUrlApi}/projects/${projectId}/releases/${options.to}`
+      url = `${options.baseUrlApi}/projects/${projectId}/releases/${encodeURIComponent(options.to!)}`
       method = 'PUT'
     }
   }
-  catch {
+  catch (error) {
     // Release doesn't exist, will create new one
+    if (!isNotFound(error))
+      throw error
   }
 
   const body = {
@@ -78,7 +87,7 @@ export async function sendRelease(
     : 'Updating release notes...'),
   )
 
-  const res = await $fetch(url, {
+  const res = await session.request(url, {
     method,
     body: JSON.stringify(body),
     headers,
@@ -88,30 +97,30 @@ export async function sendRelease(
   return res._links.self as string
 }
 
+function getAuthHeaders(options: ChangelogOptions): Record<string, string> {
+  if (getAuthType(options) === 'job-token')
+    return { 'JOB-TOKEN': options.token || '' }
+  return { 'PRIVATE-TOKEN': options.token || '' }
+}
+
 function getHeaders(options: ChangelogOptions) {
   return {
     'Content-Type': 'application/json',
-    'PRIVATE-TOKEN': options.token,
+    ...getAuthHeaders(options),
   }
 }
 
-const excludeAuthors = [
-  /\[bot\]/i,
-  /dependabot/i,
-  /\(bot\)/i,
-]
-
-export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo) {
+export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorInfo, session = createSession(options)) {
   if (info.login)
     return info
 
   // token not provided, skip gitlab resolving
-  if (!options.token)
+  if (!options.token || getAuthType(options) === 'job-token')
     return info
 
   try {
     // GitLab API: Search users by email
-    const data = await $fetch(`${options.baseUrlApi}/users?search=${encodeURIComponent(info.email)}`, {
+    const data = await session.request(`${options.baseUrlApi}/users?search=${encodeURIComponent(info.email)}`, {
       headers: getHeaders(options),
     })
     if (data.length > 0) {
@@ -122,185 +131,204 @@ export async function resolveAuthorInfo(options: ChangelogOptions, info: AuthorI
       }
     }
   }
-  catch {}
+  catch (error) {
+    if (!isNotFound(error))
+      warn(`Failed to resolve the login of ${info.email}`, error)
+  }
 
   if (info.login)
     return info
 
   if (info.commits.length) {
     try {
-      const projectId = await getProjectId(options)
-      const data = await $fetch(`${options.baseUrlApi}/projects/${projectId}/repository/commits/${info.commits[0]}`, {
+      const projectId = await getProjectId(options, options.repo as string, session)
+      const data = await session.request(`${options.baseUrlApi}/projects/${projectId}/repository/commits/${info.commits[0]}`, {
         headers: getHeaders(options),
       })
       info.login = data.author_name
     }
-    catch {}
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the login of ${info.email}`, error)
+    }
   }
 
   return info
 }
 
-export async function resolveAuthors(commits: Commit[], options: ChangelogOptions) {
-  const map = new Map<string, AuthorInfo>()
-  commits.forEach((commit) => {
-    commit.resolvedAuthors = commit.authors.map((a, idx) => {
-      if (!a.email || !a.name)
-        return null
-      if (excludeAuthors.some(re => re.test(a.name)))
-        return null
-      if (!map.has(a.email)) {
-        map.set(a.email, {
-          commits: [],
-          name: a.name,
-          email: a.email,
-        })
-      }
-      const info = map.get(a.email)!
+export async function resolveAuthors(commits: Commit[], options: ChangelogOptions, session = createSession(options)) {
+  return resolveAuthorsWithCache(
+    commits,
+    options,
+    info => resolveAuthorInfo(options, info, session),
+    (uncached) => {
+      if (getAuthType(options) === 'job-token' && uncached.length)
+        warn('GitLab CI job tokens can not look up users, contributors are listed by their git name')
+    },
+  )
+}
 
-      // record commits only for the first author
-      if (idx === 0)
-        info.commits.push(commit.shortHash)
+export async function resolvePullRequests(commits: RawGitCommit[], options: ChangelogOptions, session = createSession(options)) {
+  assertJobTokenAllows(options, 'list the merge requests of commits')
+  const projectId = await getProjectId(options, options.repo as string, session)
+  const mergeRequests = new Map<number, PullRequestInfo>()
+  const result = new Map<string, PullRequestInfo>()
 
-      return info
-    }).filter(notNullish)
-  })
-  const authors = Array.from(map.values())
-  const resolved = await Promise.all(authors.map(info => resolveAuthorInfo(options, info)))
-
-  const loginSet = new Set<string>()
-  const nameSet = new Set<string>()
-  return resolved
-    .sort((a, b) => (a.login || a.name).localeCompare(b.login || b.name))
-    .filter((i) => {
-      if (i.login && loginSet.has(i.login))
-        return false
-      if (i.login) {
-        loginSet.add(i.login)
-      }
-      else {
-        if (nameSet.has(i.name))
-          return false
-        nameSet.add(i.name)
+  await mapWithConcurrency(commits, options.concurrency || 5, async (commit) => {
+    try {
+      // https://docs.gitlab.com/api/commits/#list-merge-requests-associated-with-a-commit
+      const data = await session.request<any[]>(`${options.baseUrlApi}/projects/${projectId}/repository/commits/${commit.shortHash}/merge_requests`, {
+        headers: getHeaders(options),
+      })
+      const mr = data.find(i => i.state === 'merged')
+      if (!mr)
+        return
+      if (!mergeRequests.has(mr.iid)) {
+        mergeRequests.set(mr.iid, {
+          number: mr.iid,
+          title: mr.title,
+          body: mr.description || '',
+          url: mr.web_url,
+          labels: mr.labels || [],
+          author: mr.author?.username,
+          authorName: mr.author?.name,
+          mergeCommit: mr.squash_commit_sha || mr.merge_commit_sha || undefined,
+        })
       }
-      return true
-    })
+      result.set(commit.shortHash, mergeRequests.get(mr.iid)!)
+    }
+    catch (error) {
+      if (!isNotFound(error))
+        warn(`Failed to resolve the merge request of ${commit.shortHash}`, error)
+    }
+  })
+
+  return result
 }
 
-export async function hasTagOnGitLab(tag: string, options: ChangelogOptions) {
+export async function hasTagOnGitLab(tag: string, options: ChangelogOptions, session = createSession(options)) {
+  // the tags API is not available to job tokens, but the pipeline runs on a clone of the project
+  if (getAuthType(options) === 'job-token')
+    return isRefGitTag(tag)
   try {
-    const projectId = await getProjectId(options)
-    await $fetch(`${options.baseUrlApi}/projects/${projectId}/repository/tags/${tag}`, {
+    const projectId = await getProjectId(options, options.repo as string, session)
+    await session.request(`${options.baseUrlApi}/projects/${projectId}/repository/tags/${encodeURIComponent(tag)}`, {
       headers: getHeaders(options),
     })
     return true
   }
-  catch {
-    return false
+  catch (error) {
+    if (isNotFound(error))
+      return false
+    throw error
   }
 }
 
-export async function uploadAssets(options: ChangelogOptions, assets: string | string[]) {
+/**
+ * Create the tag `tag` at `sha`, annotated with `message` when set
+ */
+export async function createTagOnGitLab(tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session = createSession(options)) {
+  assertJobTokenAllows(options, 'create tags')
+  const projectId = await getProjectId(options, options.repo as string, session)
+  await session.request(`${options.baseUrlApi}/projects/${projectId}/repository/tags`, {
+    method: 'POST',
+    body: JSON.stringify({ tag_name: tag, ref: sha, message }),
+    headers: getHeaders(options),
+  })
+  console.log(green(`Created tag ${tag} at ${sha.slice(0, 7)}`))
+}
+
+export async function uploadAssets(options: ChangelogOptions, assets: string | string[], session = createSession(options)) {
+  if (options.gitlabAssetsTarget === 'uploads')
+    assertJobTokenAllows(options, 'upload project files', 'use `gitlabAssetsTarget: \'package\'` or an access token instead')
   const headers = getHeaders(options)
-  const projectId = await getProjectId(options)
+  const projectId = await getProjectId(options, options.releaseRepo as string, session)
 
-  let assetList: string[] = []
-  if (typeof assets === 'string') {
-    assetList = assets.split(',').map(s => s.trim()).filter(Boolean)
-  }
-  else if (Array.isArray(assets)) {
-    assetList = assets.flatMap(item =>
-      typeof item === 'string' ? item.split(',').map(s => s.trim()) : [],
-    ).filter(Boolean)
-  }
+  const expandedAssets = await expandAssets(assets)
 
-  // Expand glob patterns to actual file paths
-  const expandedAssets: string[] = []
-  for (const pattern of assetList) {
-    try {
-      // Use the pattern directly without shell expansion
-      const matches = await glob(pattern)
-      if (matches.length) {
-        expandedAssets.push(...matches)
-      }
-      else {
-        // If no matches found, treat as literal path
-        expandedAssets.push(pattern)
-      }
-    }
-    catch (error) {
-      console.error(red(`Failed to process glob pattern "${pattern}": ${error}`))
-      // Keep the original pattern as fallback
-      expandedAssets.push(pattern)
-    }
+  // GitLab doesn't have direct release asset upload like GitHub.
+  // Instead, files are stored in the generic package registry (or project uploads)
+  // and attached to the release as asset links.
+  const tag = encodeURIComponent(options.to!)
+  const linksUrl = `${options.baseUrlApi}/projects/${projectId}/releases/${tag}/assets/links`
+  let existingLinks: GitLabReleaseLink[] = []
+  try {
+    existingLinks = await session.request<GitLabReleaseLink[]>(linksUrl, { headers })
+  }
+  catch (error) {
+    if (!isNotFound(error))
+      warn('Failed to list existing release links, assets may be linked twice', error)
   }
 
-  // GitLab doesn't have direct release asset upload like GitHub
-  // Instead, we need to upload files to the project and then link them to the release
-  const uploadedLinks: Array<{ name: string, url: string }> = []
-
-  for (const asset of expandedAssets) {
-    const filePath = path.resolve(asset)
-    try {
-      const fileData = await fs.readFile(filePath)
-      const fileName = path.basename(filePath)
-
-      console.log(cyan(`Uploading ${fileName}...`))
-
-      // Upload the file to GitLab's repository files API
-      const fileContent = fileData.toString('base64')
-
-      try {
-        // Use GitLab's repository files API to upload the file
-        await $fetch(`${options.baseUrlApi}/projects/${projectId}/repository/files/${encodeURIComponent(fileName)}`, {
-          method: 'POST',
-          headers: getHeaders(options),
-          body: JSON.stringify({
-            branch: 'main',
-            content: fileContent,
-            commit_message: `Add release asset: ${fileName}`,
-            encoding: 'base64',
-          }),
-        })
-
-        uploadedLinks.push({
-          name: fileName,
-          url: `${options.baseUrl}/${options.releaseRepo}/-/blob/main/${fileName}`,
-        })
+  await uploadEachAsset(expandedAssets, async (fileName, fileData) => {
+    const url = options.gitlabAssetsTarget === 'uploads'
+      ? await uploadToProjectUploads(options, session, projectId, fileName, fileData)
+      : await uploadToPackageRegistry(options, session, projectId, fileName, fileData)
 
-        console.log(green(`Uploaded ${fileName} successfully.`))
-      }
-      catch (error) {
-        console.error(red(`Failed to upload ${fileName}: ${error}`))
-      }
-    }
-    catch (error) {
-      console.error(red(`Failed to read file ${filePath}: ${error}`))
-    }
-  }
+    const body = JSON.stringify({
+      name: fileName,
+      url,
+      direct_asset_path: `/${fileName}`,
+      link_type: getAssetLinkType(options, fileName),
+    })
+    // Re-running a release replaces links with the same name instead of failing
+    const existing = existingLinks.find(link => link.name === fileName)
+    if (existing)
+      await session.request(`${linksUrl}/${existing.id}`, { method: 'PUT', headers, body })
+    else
+      await session.request(linksUrl, { method: 'POST', headers, body })
+  })
+}
 
-  // Update the release description to include links to uploaded assets
-  if (uploadedLinks.length > 0) {
-    try {
-      const release = await $fetch(`${options.baseUrlApi}/projects/${projectId}/releases/${options.to}`, {
-        headers,
-      })
+interface GitLabReleaseLink {
+  id: number
+  name: string
+  url: string
+}
 
-      const assetLinks = uploadedLinks.map(link => `- [${link.name}](${link.url})`).join('\n')
-      const updatedDescription = `${release.description}\n\n## Assets\n${assetLinks}`
+// https://docs.gitlab.com/user/packages/generic_packages/
+async function uploadToPackageRegistry(options: ChangelogOptions, session: ReleaseSession, projectId: number, fileName: string, fileData: Buffer) {
+  const packageName = encodeURIComponent(options.gitlabPackageName || 'release-assets')
+  // Package versions only allow word characters, dots, `+` and `-`
+  const packageVersion = encodeURIComponent(options.to!.replace(/[^\w.+-]/g, '-'))
+  const url = `${options.baseUrlApi}/projects/${projectId}/packages/generic/${packageName}/${packageVersion}/${encodeURIComponent(fileName)}`
+  await session.request(url, {
+    method: 'PUT',
+    headers: {
+      ...getHeaders(options),
+      'Content-Type': 'application/octet-stream',
+    },
+    body: fileData,
+  })
+  return url
+}
 
-      await $fetch(`${options.baseUrlApi}/projects/${projectId}/releases/${options.to}`, {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify({
-          description: updatedDescription,
-        }),
-      })
+// https://docs.gitlab.com/api/project_markdown_uploads/
+async function uploadToProjectUploads(options: ChangelogOptions, session: ReleaseSession, projectId: number, fileName: string, fileData: Buffer) {
+  const form = new FormData()
+  form.append('file', new Blob([fileData], { type: 'application/octet-stream' }), fileName)
+  const data = await session.request<{ url: string, full_path?: string }>(`${options.baseUrlApi}/projects/${projectId}/uploads`, {
+    method: 'POST',
+    headers: getAuthHeaders(options),
+    body: form,
+  })
+  // `full_path` is only returned by newer GitLab versions
+  return data.full_path
+    ? `${options.baseUrl}${data.full_path}`
+    : `${options.baseUrl}/${options.releaseRepo}${data.url}`
+}
 
-      console.log(green('Updated release with asset links.'))
-    }
-    catch (error) {
-      console.error(red(`Failed to update release with asset links: ${error}`))
-    }
-  }
+const packageExtensions = /\.(?:zip|tar|tgz|gz|bz2|xz|7z|rar|deb|rpm|apk|exe|msi|dmg|pkg|appimage|jar|war|whl|gem|nupkg)$/i
+const imageExtensions = /\.(?:png|jpe?g|gif|svg|webp|bmp|ico)$/i
+
+export function getAssetLinkType(options: ChangelogOptions, fileName: string): GitLabAssetLinkType {
+  if (typeof options.gitlabAssetLinkType === 'function')
+    return options.gitlabAssetLinkType(fileName)
+  if (options.gitlabAssetLinkType)
+    return options.gitlabAssetLinkType
+  if (imageExtensions.test(fileName))
+    return 'image'
+  if (packageExtensions.test(fileName))
+    return 'package'
+  return 'other'
 }
@@ -0,0 +1,118 @@
+import type { FetchError, FetchOptions } from 'ofetch'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { yellow } from 'ansis'
+import { $fetch } from 'ofetch'
+
+export interface RequestOptions extends FetchOptions<'json'> {
+  /**
+   * Number of retries on 5xx, 429 and rate limit responses. Requests that are
+   * not idempotent, e.g. a POST creating a release, are only retried on a 429
+   * with `Retry-After`, as the first attempt may have succeeded on a 5xx
+   *
+   * @default 3
+   */
+  retries?: number
+}
+
+/**
+ * Longest delay honoured from `Retry-After` / `X-RateLimit-Reset`,
+ * waiting for longer (e.g. an exhausted hourly quota) fails instead
+ */
+const MAX_RETRY_DELAY = 60_000
+const BASE_RETRY_DELAY = 1_000
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE'])
+
+/**
+ * `$fetch` with retries on transient errors and rate limits, shared by all providers
+ */
+export async function $request<T = any>(url: string, options: RequestOptions = {}): Promise<T> {
+  const { retries = 3, ...fetchOptions } = options
+  const idempotent = IDEMPOTENT_METHODS.has((fetchOptions.method || 'GET').toUpperCase())
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // retries are handled here, so that rate limit headers can be honoured
+      return await $fetch<T, 'json'>(url, { ...fetchOptions, retry: false })
+    }
+    catch (error) {
+      const delay = idempotent || isRetryableRateLimit(error as FetchError)
+        ? getRetryDelay(error as FetchError, attempt)
+        : undefined
+      if (delay === undefined || attempt >= retries)
+        throw error
+      await sleep(delay)
+    }
+  }
+}
+
+// the request was rejected before being handled, so it is safe to send again
+function isRetryableRateLimit(error: FetchError) {
+  return error.response?.status === 429 && !!error.response.headers.get('retry-after')
+}
+
+function getRetryDelay(error: FetchError, attempt: number): number | undefined {
+  const backoff = BASE_RETRY_DELAY * 2 ** attempt
+  const response = error.response
+  // network errors, e.g. connection reset
+  if (!response)
+    return error.name === 'AbortError' ? undefined : backoff
+
+  const retryAfter = response.headers.get('retry-after')
+  const remaining = response.headers.get('x-ratelimit-remaining') ?? response.headers.get('ratelimit-remaining')
+  const reset = response.headers.get('x-ratelimit-reset') ?? response.headers.get('ratelimit-reset')
+  // GitHub answers secondary rate limits with 403 instead of 429
+  const isRateLimited = response.status === 429
+    || (response.status === 403 && (!!retryAfter || remaining === '0'))
+  if (!isRateLimited && response.status < 500)
+    return undefined
+
+  let delay = backoff
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    delay = Number.isNaN(seconds)
+      ? new Date(retryAfter).getTime() - Date.now()
+      : seconds * 1000
+  }
+  else if (isRateLimited && reset) {
+    // epoch seconds
+    delay = Number(reset) * 1000 - Date.now()
+  }
+
+  if (Number.isNaN(delay))
+    return backoff
+  if (delay > MAX_RETRY_DELAY)
+    return undefined
+  return Math.max(delay, 0)
+}
+
+/**
+ * Whether the request failed because the resource does not exist,
+ * as opposed to a failure that degrades the result
+ */
+export function isNotFound(error: unknown) {
+  const status = (error as FetchError)?.response?.status
+  return status === 404 || status === 422
+}
+
+/**
+ * Report data that could not be fetched, without failing the release
+ */
+export function warn(message: string, error?: unknown) {
+  const reason = error ? `: ${(error as Error).message || error}` : ''
+  console.warn(yellow(`[warn] ${message}${reason}`))
+}
+
+/**
+ * `Promise.all` over `items` with at most `concurrency` pending promises
+ */
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length })
+  let next = 0
+  async function worker() {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
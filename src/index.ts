@@ -1,8 +1,21 @@
+export * from './auth'
+export * from './backfill'
+export * from './bump'
+export * from './changelog'
 export * from './config'
+export * from './filters'
+export * from './formats'
 export * from './generate'
 export * from './git'
+export * from './locales'
 export * from './markdown'
+export * from './notes'
+export * from './notify'
 export * from './parse'
 export * from './providers'
+export * from './pulls'
+export * from './remote'
 export * from './run'
+export * from './session'
 export * from './types'
+export * from './workspace'
@@ -0,0 +1,218 @@
+import type { ChangelogOptions } from './types'
+
+/**
+ * Every string generated in the release notes, notifications and changelog files
+ */
+export interface LocaleMessages {
+  /**
+   * Default titles of the breaking changes section and of the commit type sections
+   */
+  titles: {
+    breakingChanges: string
+    feat: string
+    fix: string
+    perf: string
+  }
+  /**
+   * Section titles of the `keep-a-changelog` style
+   */
+  keepAChangelog: {
+    added: string
+    changed: string
+    deprecated: string
+    removed: string
+    fixed: string
+    security: string
+  }
+  noChanges: string
+  viewChanges: string
+  viewRelease: string
+  fullReleaseNotes: string
+  /**
+   * Marker of breaking changes listed with the other changes
+   */
+  breaking: string
+  /**
+   * Title of a new changelog file
+   */
+  changelog: string
+  /**
+   * Title of a new Atom feed, `{0}` is replaced by the repository
+   */
+  feedTitle: string
+  /**
+   * `{0}` is replaced by the authors
+   */
+  by: string
+  /**
+   * `{0}` is replaced by the issues and pull requests
+   */
+  in: string
+  /**
+   * How lists of authors and references are joined, e.g. `a, b and c`
+   */
+  list: {
+    separator: string
+    lastSeparator: string
+  }
+}
+
+export type LocaleMessagesOverrides = {
+  [K in keyof LocaleMessages]?: LocaleMessages[K] extends string ? string : Partial<LocaleMessages[K]>
+}
+
+export const locales: Record<string, LocaleMessages> = {
+  'en': {
+    titles: {
+      breakingChanges: '🚨 Breaking Changes',
+      feat: '🚀 Features',
+      fix: '🐞 Bug Fixes',
+      perf: '🏎 Performance',
+    },
+    keepAChangelog: {
+      added: 'Added',
+      changed: 'Changed',
+      deprecated: 'Deprecated',
+      removed: 'Removed',
+      fixed: 'Fixed',
+      security: 'Security',
+    },
+    noChanges: 'No significant changes',
+    viewChanges: 'View changes',
+    viewRelease: 'View release',
+    fullReleaseNotes: 'Full release notes',
+    breaking: 'Breaking',
+    changelog: 'Changelog',
+    feedTitle: '{0} releases',
+    by: 'by {0}',
+    in: 'in {0}',
+    list: { separator: ', ', lastSeparator: ' and ' },
+  },
+  'zh-CN': {
+    titles: {
+      breakingChanges: '🚨 破坏性变更',
+      feat: '🚀 新功能',
+      fix: '🐞 问题修复',
+      perf: '🏎 性能优化',
+    },
+    keepAChangelog: {
+      added: '新增',
+      changed: '变更',
+      deprecated: '弃用',
+      removed: '移除',
+      fixed: '修复',
+      security: '安全',
+    },
+    noChanges: '无重要变更',
+    viewChanges: '查看变更',
+    viewRelease: '查看发布',
+    fullReleaseNotes: '完整发布说明',
+    breaking: '破坏性变更',
+    changelog: '更新日志',
+    feedTitle: '{0} 发布记录',
+    by: '由 {0} 提交',
+    in: '见 {0}',
+    list: { separator: '、', lastSeparator: ' 和 ' },
+  },
+  'ja': {
+    titles: {
+      breakingChanges: '🚨 破壊的変更',
+      feat: '🚀 新機能',
+      fix: '🐞 バグ修正',
+      perf: '🏎 パフォーマンス',
+    },
+    keepAChangelog: {
+      added: '追加',
+      changed: '変更',
+      deprecated: '非推奨',
+      removed: '削除',
+      fixed: '修正',
+      security: 'セキュリティ',
+    },
+    noChanges: '大きな変更はありません',
+    viewChanges: '変更を表示',
+    viewRelease: 'リリースを表示',
+    fullReleaseNotes: 'リリースノート全文',
+    breaking: '破壊的変更',
+    changelog: '変更履歴',
+    feedTitle: '{0} のリリース',
+    by: '{0} による',
+    in: '{0} にて',
+    list: { separator: '、', lastSeparator: '、' },
+  },
+}
+
+const EmojiPrefixRE = /^\p{Extended_Pictographic}\uFE0F?\s*/u
+
+function getLocale(locale: string, overrides: Record<string, LocaleMessagesOverrides> = {}): LocaleMessages {
+  const base = locales[locale]
+  const override = overrides[locale]
+  if (!base && !override)
+    throw new Error(`Unknown locale: ${locale}, expected one of ${Object.keys(locales).join(', ')} or a locale defined in \`messages\``)
+  const messages = base || locales.en
+  return {
+    ...messages,
+    ...override,
+    titles: { ...messages.titles, ...override?.titles },
+    keepAChangelog: { ...messages.keepAChangelog, ...override?.keepAChangelog },
+    list: { ...messages.list, ...override?.list },
+  } as LocaleMessages
+}
+
+// `🚀 Features / 新功能`, the emoji is not repeated
+function combine(values: string[]) {
+  return [values[0], ...values.slice(1).map(value => value.replace(EmojiPrefixRE, ''))]
+    .filter((value, index, all) => all.indexOf(value) === index)
+    .join(' / ')
+}
+
+/**
+ * Messages of `locale`, several locales may also be separated by commas. With several locales the titles and links show every language,
+ * while the words within a line and the list joining follow the first one.
+ */
+export function resolveMessages(options: Pick<ChangelogOptions, 'locale' | 'messages'>): LocaleMessages {
+  const [primary, ...others] = ([] as string[]).concat(options.locale || 'en').flatMap(locale => locale.split(',')).map(locale => getLocale(locale.trim(), options.messages))
+  if (!others.length)
+    return primary
+
+  const all = [primary, ...others]
+  const pick = <T extends Record<string, string>>(get: (messages: LocaleMessages) => T) =>
+    Object.fromEntries(Object.keys(get(primary)).map(key => [key, combine(all.map(m => get(m)[key]))])) as T
+  return {
+    ...primary,
+    titles: pick(m => m.titles),
+    keepAChangelog: pick(m => m.keepAChangelog),
+    noChanges: combine(all.map(m => m.noChanges)),
+    viewChanges: combine(all.map(m => m.viewChanges)),
+    viewRelease: combine(all.map(m => m.viewRelease)),
+    fullReleaseNotes: combine(all.map(m => m.fullReleaseNotes)),
+    breaking: combine(all.map(m => m.breaking)),
+    changelog: combine(all.map(m => m.changelog)),
+  }
+}
+
+/**
+ * Section titles in the language of `locale`. Titles left to their english default
+ * are translated, custom titles are kept.
+ */
+export function localizeTitles(options: Pick<ChangelogOptions, 'locale' | 'messages' | 'types' | 'titles'>) {
+  const defaults = locales.en.titles as Record<string, string>
+  const titles = resolveMessages(options).titles as Record<string, string>
+  const localize = (key: string, title?: string) => title && title === defaults[key] ? titles[key] : title
+
+  return {
+    types: Object.fromEntries(Object.entries(options.types || {})
+      .map(([type, value]) => [type, { ...value, title: localize(type, value.title)! }])),
+    titles: {
+      ...options.titles,
+      breakingChanges: localize('breakingChanges', options.titles?.breakingChanges),
+    },
+  }
+}
+
+/**
+ * Replace `{0}` in a message
+ */
+export function formatMessage(message: string, value: string) {
+  return message.replace('{0}', value)
+}
@@ -1,140 +1,281 @@
-import type { Reference } from 'changelogen'
-import type { Commit, ResolvedChangelogOptions } from './types'
-import { partition } from '@antfu/utils'
+import type { LocaleMessages } from './locales'
+import type { NotesLayout, ReleaseEntry, ReleaseNotes, ReleaseReference, ReleaseSection } from './notes'
+import type { Commit, ReleaseStyle, ResolvedChangelogOptions } from './types'
 import { convert } from 'convert-gitmoji'
+import { formatMessage, resolveMessages } from './locales'
+import { buildReleaseNotes } from './notes'
 
 const emojisRE = /([\u2700-\u27BF\uE000-\uF8FF\u2011-\u26FF]|\uD83C[\uDC00-\uDFFF]|\uD83D[\uDC00-\uDFFF]|\uD83E[\uDD10-\uDDFF])/g
 
-function formatReferences(references: Reference[], baseUrl: string, github: string, type: 'issues' | 'hash'): string {
-  const refs = references
-    .filter((i) => {
-      if (type === 'issues')
-        return i.type === 'issue' || i.type === 'pull-request'
-      return i.type === 'hash'
-    })
-    .map((ref) => {
-      if (!github)
-        return ref.value
-      if (ref.type === 'pull-request' || ref.type === 'issue')
-        return `${baseUrl}/${github}/issues/${ref.value.slice(1)}`
-      return `[<samp>(${ref.value.slice(0, 5)})</samp>](${baseUrl}/${github}/commit/${ref.value})`
-    })
-
-  const referencesString = join(refs).trim()
-
-  if (type === 'issues')
-    return referencesString && `in ${referencesString}`
-  return referencesString
+export interface TemplateContext {
+  options: ResolvedChangelogOptions
+  /**
+   * The templates in use, to render parts with the other templates
+   */
+  templates: ReleaseTemplates
+  /**
+   * Generated text in the language of `locale`
+   */
+  messages: LocaleMessages
 }
 
-function formatLine(commit: Commit, options: ResolvedChangelogOptions) {
-  const prRefs = formatReferences(commit.references, options.baseUrl, options.repo as string, 'issues')
-  const hashRefs = formatReferences(commit.references, options.baseUrl, options.repo as string, 'hash')
-
-  let authors = join([...new Set(commit.resolvedAuthors?.map(i => i.login ? `@${i.login}` : `**${i.name}**`))])?.trim()
-  if (authors)
-    authors = `by ${authors}`
-
-  let refs = [authors, prRefs, hashRefs].filter(i => i?.trim()).join(' ')
-
-  if (refs)
-    refs = `&nbsp;-&nbsp; ${refs}`
-
-  const description = options.capitalize ? capitalize(commit.description) : commit.description
-
-  return [description, refs].filter(i => i?.trim()).join(' ')
+/**
+ * Render functions of the release notes, each one can be overridden with `templates`
+ */
+export interface ReleaseTemplates {
+  /**
+   * The whole release notes
+   */
+  document: (notes: ReleaseNotes, ctx: TemplateContext) => string
+  /**
+   * A section with its title and entries
+   */
+  section: (section: ReleaseSection, ctx: TemplateContext) => string
+  title: (section: ReleaseSection, ctx: TemplateContext) => string
+  /**
+   * A single entry, without the list marker and scope
+   */
+  entry: (entry: ReleaseEntry, ctx: TemplateContext) => string
+  /**
+   * Link to the compare view
+   */
+  footer: (notes: ReleaseNotes, ctx: TemplateContext) => string
 }
 
-function formatTitle(name: string, options: ResolvedChangelogOptions) {
-  if (!options.emoji)
-    name = name.replace(emojisRE, '')
+function formatReference(ref: ReleaseReference) {
+  if (!ref.url)
+    return ref.value
+  if (ref.type === 'hash')
+    return `[<samp>(${ref.value.slice(0, 5)})</samp>](${ref.url})`
+  return `[${ref.repo || ''}${ref.value}](${ref.url})`
+}
 
-  return `### &nbsp;&nbsp;&nbsp;${name.trim()}`
+function formatPlainReference(ref: ReleaseReference) {
+  return ref.type === 'hash' ? ref.value.slice(0, 7) : `${ref.repo || ''}${ref.value}`
 }
 
-function formatSection(commits: Commit[], sectionName: string, options: ResolvedChangelogOptions) {
-  if (!commits.length)
-    return []
+function formatLink(ref: ReleaseReference) {
+  return ref.url ? `[${formatPlainReference(ref)}](${ref.url})` : formatPlainReference(ref)
+}
 
-  const lines: string[] = [
-    '',
-    formatTitle(sectionName, options),
-    '',
-  ]
+function formatAuthors(entry: ReleaseEntry, messages: LocaleMessages, bold = true) {
+  const names = entry.authors.map(i => i.login ? `@${i.login}` : bold ? `**${i.name}**` : i.name)
+  return joinMessageList([...new Set(names)], messages).trim()
+}
 
-  const scopes = groupBy(commits, 'scope')
-  let useScopeGroup = options.group
+/**
+ * Join a list with the separators of the locale
+ */
+export function joinMessageList(array: string[], messages: LocaleMessages) {
+  return joinList(array, messages.list.separator, messages.list.lastSeparator)
+}
 
-  // group scopes only when one of the scope have multiple commits
-  if (!Object.entries(scopes).some(([k, v]) => k && v.length > 1))
-    useScopeGroup = false
+export function formatSectionTitle(section: ReleaseSection, options: ResolvedChangelogOptions) {
+  return (options.emoji ? section.title : section.title.replace(emojisRE, '')).trim()
+}
 
-  Object.keys(scopes).sort().forEach((scope) => {
+// entries grouped by scope, nested under the scope when `group` asks for it
+function formatScopes(section: ReleaseSection, ctx: TemplateContext, formatScope: (title: string) => string) {
+  const lines: string[] = []
+  for (const scope of section.scopes) {
     let padding = ''
     let prefix = ''
-    const scopeText = `**${options.scopeMap[scope] || scope}**`
-    if (scope && (useScopeGroup === true || (useScopeGroup === 'multiple' && scopes[scope].length > 1))) {
+    const scopeText = formatScope(scope.title)
+    if (scope.nested) {
       lines.push(`- ${scopeText}:`)
       padding = '  '
     }
-    else if (scope) {
+    else if (scope.name) {
       prefix = `${scopeText}: `
     }
+    lines.push(...scope.entries.map(entry => `${padding}- ${prefix}${ctx.templates.entry(entry, ctx)}`))
+  }
+  return lines
+}
 
-    lines.push(...scopes[scope]
-      .reverse()
-      .map(commit => `${padding}- ${prefix}${formatLine(commit, options)}`),
-    )
-  })
+export const defaultTemplates: ReleaseTemplates = {
+  document(notes, { templates, ...ctx }) {
+    const sections = notes.sections.map(section => templates.section(section, { templates, ...ctx }))
+    return [
+      sections.join('\n\n') || `*${ctx.messages.noChanges}*`,
+      templates.footer(notes, { templates, ...ctx }),
+    ].join('\n\n')
+  },
 
-  return lines
+  section(section, ctx) {
+    return [ctx.templates.title(section, ctx), '', ...formatScopes(section, ctx, scope => `**${scope}**`)].join('\n')
+  },
+
+  title(section, { options }) {
+    return `### &nbsp;&nbsp;&nbsp;${formatSectionTitle(section, options)}`
+  },
+
+  entry(entry, { messages }) {
+    const prRefs = joinMessageList(entry.references.map(formatReference), messages).trim()
+    const hashRefs = joinMessageList(entry.hashes.map(formatReference), messages).trim()
+
+    let authors = formatAuthors(entry, messages)
+    if (authors)
+      authors = formatMessage(messages.by, authors)
+
+    let refs = [authors, prRefs && formatMessage(messages.in, prRefs), hashRefs].filter(i => i?.trim()).join(' ')
+
+    if (refs)
+      refs = `&nbsp;-&nbsp; ${refs}`
+
+    return [entry.description, refs].filter(i => i?.trim()).join(' ')
+  },
+
+  footer(notes, { messages }) {
+    return `##### &nbsp;&nbsp;&nbsp;&nbsp;[${messages.viewChanges}](${notes.compareUrl})`
+  },
 }
 
-export function generateMarkdown(commits: Commit[], options: ResolvedChangelogOptions) {
-  const lines: string[] = []
+const keepAChangelogTemplates: ReleaseTemplates = {
+  ...defaultTemplates,
+
+  title(section) {
+    return `### ${section.title}`
+  },
 
-  const [breaking, changes] = partition(commits, c => c.isBreaking)
+  entry(entry, { messages }) {
+    const refs = [...entry.references, ...entry.hashes].map(formatLink).join(', ')
+    return `${entry.isBreaking ? `**${messages.breaking}:** ` : ''}${entry.description}${refs ? ` (${refs})` : ''}`
+  },
 
-  const group = groupBy(changes, 'type')
+  footer(notes, { messages }) {
+    return `[${messages.viewChanges}](${notes.compareUrl})`
+  },
+}
 
-  lines.push(
-    ...formatSection(breaking, options.titles.breakingChanges!, options),
-  )
+const plainTemplates: ReleaseTemplates = {
+  document(notes, { templates, ...ctx }) {
+    const sections = notes.sections.map(section => templates.section(section, { templates, ...ctx }))
+    return [
+      sections.join('\n\n') || ctx.messages.noChanges,
+      templates.footer(notes, { templates, ...ctx }),
+    ].join('\n\n')
+  },
+
+  section(section, ctx) {
+    const title = ctx.templates.title(section, ctx)
+    return [title, '-'.repeat(title.length), '', ...formatScopes(section, ctx, scope => scope)].join('\n')
+  },
+
+  title(section, { options }) {
+    return formatSectionTitle(section, options)
+  },
+
+  entry(entry, { messages }) {
+    const refs = entry.references.map(formatPlainReference).join(', ')
+    const authors = formatAuthors(entry, messages, false)
+    return [
+      entry.description,
+      refs && `(${refs})`,
+      authors && formatMessage(messages.by, authors),
+      entry.hashes.map(ref => `[${formatPlainReference(ref)}]`).join(' '),
+    ].filter(Boolean).join(' ')
+  },
+
+  footer(notes, { messages }) {
+    return `${messages.viewChanges}: ${notes.compareUrl}`
+  },
+}
 
-  for (const type of Object.keys(options.types)) {
-    const items = group[type] || []
-    lines.push(
-      ...formatSection(items, options.types[type].title, options),
-    )
-  }
+const compactTemplates: ReleaseTemplates = {
+  ...defaultTemplates,
+
+  document(notes, { templates, ...ctx }) {
+    const lines = notes.sections.map(section => templates.section(section, { templates, ...ctx }))
+    return [
+      lines.join('\n') || `*${ctx.messages.noChanges}*`,
+      templates.footer(notes, { templates, ...ctx }),
+    ].join('\n\n')
+  },
+
+  // one line per entry, the section only decides the order
+  section(section, ctx) {
+    return section.entries.map(entry => `- ${ctx.templates.entry(entry, ctx)}`).join('\n')
+  },
+
+  entry(entry, { messages }) {
+    const prefix = `**${entry.type}${entry.scope ? `(${entry.scope})` : ''}${entry.isBreaking ? '!' : ''}**:`
+    const authors = formatAuthors(entry, messages)
+    const refs = entry.references.map(formatLink)
+    return [
+      prefix,
+      entry.description,
+      authors && formatMessage(messages.by, authors),
+      refs.length ? formatMessage(messages.in, joinMessageList(refs, messages)) : '',
+      entry.hashes.map(ref => `(${formatLink(ref)})`).join(' '),
+    ].filter(Boolean).join(' ')
+  },
+
+  footer(notes, { messages }) {
+    return `[${messages.viewChanges}](${notes.compareUrl})`
+  },
+}
 
-  if (!lines.length)
-    lines.push('*No significant changes*')
+/**
+ * Built-in output styles, all sharing the same sections and grouping
+ */
+export const releaseStyles: Record<ReleaseStyle, { templates: ReleaseTemplates, layout?: (messages: LocaleMessages) => NotesLayout }> = {
+  'default': { templates: defaultTemplates },
+  'keep-a-changelog': {
+    templates: keepAChangelogTemplates,
+    layout: ({ keepAChangelog: titles }) => ({
+      types: {
+        feat: { title: titles.added },
+        perf: { title: titles.changed },
+        refactor: { title: titles.changed },
+        deprecate: { title: titles.deprecated },
+        revert: { title: titles.removed },
+        remove: { title: titles.removed },
+        fix: { title: titles.fixed },
+        security: { title: titles.security },
+      },
+      breakingType: 'refactor',
+    }),
+  },
+  'plain': { templates: plainTemplates },
+  'compact': { templates: compactTemplates },
+}
 
-  const comparePath = options.repoProvider === 'gitlab'
-    ? `/-/compare/${options.from}...${options.to}`
-    : `/compare/${options.from}...${options.to}`
-  const url = `${options.baseUrl}/${options.repo}${comparePath}`
+export function getReleaseStyle(options: Pick<ResolvedChangelogOptions, 'style'>) {
+  const style = releaseStyles[options.style || 'default']
+  if (!style)
+    throw new Error(`Unknown style: ${options.style}, expected one of ${Object.keys(releaseStyles).join(', ')}`)
+  return style
+}
 
-  lines.push('', `##### &nbsp;&nbsp;&nbsp;&nbsp;[View changes](${url})`)
+/**
+ * Render release notes with a complete set of templates
+ */
+export function renderNotes(notes: ReleaseNotes, options: ResolvedChangelogOptions, templates: ReleaseTemplates) {
+  return convert(templates.document(notes, { options, templates, messages: resolveMessages(options) }).trim(), true)
+}
 
-  return convert(lines.join('\n').trim(), true)
+export function renderMarkdown(notes: ReleaseNotes, options: ResolvedChangelogOptions) {
+  // a path is replaced by the module it points to when resolving the config
+  const overrides = typeof options.releaseTemplates === 'object' ? options.releaseTemplates : {}
+  return renderNotes(notes, options, { ...getReleaseStyle(options).templates, ...overrides })
 }
 
-function groupBy<T>(items: T[], key: string, groups: Record<string, T[]> = {}) {
-  for (const item of items) {
-    const v = (item as any)[key] as string
-    groups[v] = groups[v] || []
-    groups[v].push(item)
-  }
-  return groups
+/**
+ * How the style distributes the commits into sections, in the language of `locale`
+ */
+export function getNotesLayout(options: ResolvedChangelogOptions) {
+  return getReleaseStyle(options).layout?.(resolveMessages(options))
 }
 
-function capitalize(str: string) {
-  return str.charAt(0).toUpperCase() + str.slice(1)
+export function generateMarkdown(commits: Commit[], options: ResolvedChangelogOptions) {
+  return renderMarkdown(buildReleaseNotes(commits, options, getNotesLayout(options)), options)
 }
 
-function join(array?: string[], glue = ', ', finalGlue = ' and '): string {
+/**
+ * `a, b and c`
+ */
+export function joinList(array?: string[], glue = ', ', finalGlue = ' and '): string {
   if (!array || array.length === 0)
     return ''
 
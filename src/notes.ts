@@ -0,0 +1,223 @@
+import type { AuthorInfo, Commit, ResolvedChangelogOptions } from './types'
+import { getProvider } from './providers'
+
+export interface ReleaseReference {
+  type: 'issue' | 'pull-request' | 'hash'
+  /**
+   * `#12`, `!34` or the commit hash
+   */
+  value: string
+  /**
+   * Project of cross-project references, e.g. `group/project`
+   */
+  repo?: string
+  /**
+   * Link to the reference, unset when the repository is unknown
+   */
+  url?: string
+}
+
+export interface ReleaseEntry {
+  /**
+   * Description of the commit, capitalized when `capitalize` is set
+   */
+  description: string
+  type: string
+  scope: string
+  isBreaking: boolean
+  authors: AuthorInfo[]
+  /**
+   * Issues and pull requests
+   */
+  references: ReleaseReference[]
+  hashes: ReleaseReference[]
+  commit: Commit
+}
+
+export interface ReleaseScope {
+  /**
+   * Scope of the commits, empty for commits without scope
+   */
+  name: string
+  /**
+   * Display name of the scope from `scopeMap`
+   */
+  title: string
+  /**
+   * Whether the entries should be nested under the scope, according to `group`
+   */
+  nested: boolean
+  entries: ReleaseEntry[]
+}
+
+export interface ReleaseSection {
+  /**
+   * `breaking` for breaking changes, `label` for sections from `labels.sections`,
+   * `type` for sections from `types`
+   */
+  kind: 'breaking' | 'label' | 'type'
+  /**
+   * Commit type or label section title the section was built from,
+   * the first of the types when several types share the section
+   */
+  key: string
+  title: string
+  /**
+   * Entries grouped by scope, scopes sorted by name and entries from oldest to newest
+   */
+  scopes: ReleaseScope[]
+  entries: ReleaseEntry[]
+}
+
+export interface ReleaseNotes {
+  from: string
+  to: string
+  repo?: string
+  compareUrl: string
+  /**
+   * Sections with at least one entry, in display order
+   */
+  sections: ReleaseSection[]
+  /**
+   * Everyone who authored an entry, without duplicates
+   */
+  authors: AuthorInfo[]
+}
+
+/**
+ * How commits are distributed into sections, set by the output style
+ */
+export interface NotesLayout {
+  /**
+   * Sections of the commit types, types with the same title share a section
+   * @default `types`
+   */
+  types?: ResolvedChangelogOptions['types']
+  /**
+   * Keep breaking changes in the section of their type instead of a section of their own.
+   * Breaking changes of types without a section are placed in the section of this type.
+   */
+  breakingType?: string
+}
+
+function getLabelSection(commit: Commit, options: ResolvedChangelogOptions) {
+  const sections = options.labels?.sections || {}
+  const label = Object.keys(sections).find(label => commit.labels?.includes(label))
+  return label ? sections[label] : undefined
+}
+
+/**
+ * References of a commit with their links, hashes included
+ */
+export function resolveReferences(commit: Commit, options: ResolvedChangelogOptions) {
+  const { urls } = getProvider(options.repoProvider, options.providers)
+  return commit.references.map((ref): ReleaseReference => {
+    const reference: ReleaseReference = { type: ref.type, value: ref.value, repo: ref.repo }
+    if (options.repo) {
+      if (ref.type === 'hash')
+        reference.url = urls.commit(options, ref.value)
+      else if (ref.type === 'pull-request')
+        reference.url = urls.pullRequest(options, ref.value.slice(1), ref.repo)
+      else
+        reference.url = urls.issue(options, ref.value.slice(1), ref.repo)
+    }
+    return reference
+  })
+}
+
+function toEntry(commit: Commit, options: ResolvedChangelogOptions): ReleaseEntry {
+  const references = resolveReferences(commit, options)
+  return {
+    description: options.capitalize ? capitalize(commit.description) : commit.description,
+    type: commit.type,
+    scope: commit.scope,
+    isBreaking: commit.isBreaking,
+    authors: commit.resolvedAuthors || [],
+    references: references.filter(ref => ref.type !== 'hash'),
+    hashes: references.filter(ref => ref.type === 'hash'),
+    commit,
+  }
+}
+
+function toSection(kind: ReleaseSection['kind'], key: string, title: string, commits: Commit[], options: ResolvedChangelogOptions): ReleaseSection {
+  const scopes = groupBy(commits, 'scope')
+  // group scopes only when one of the scope have multiple commits
+  const useScopeGroup = Object.entries(scopes).some(([k, v]) => k && v.length > 1) && options.group
+
+  const sectionScopes = Object.keys(scopes).sort().map((scope): ReleaseScope => ({
+    name: scope,
+    title: options.scopeMap?.[scope] || scope,
+    nested: !!scope && (useScopeGroup === true || (useScopeGroup === 'multiple' && scopes[scope].length > 1)),
+    // `git log` lists the newest commits first
+    entries: [...scopes[scope]].reverse().map(commit => toEntry(commit, options)),
+  }))
+
+  return {
+    kind,
+    key,
+    title,
+    scopes: sectionScopes,
+    entries: sectionScopes.flatMap(scope => scope.entries),
+  }
+}
+
+/**
+ * Structured release notes, the data every template renders from
+ */
+export function buildReleaseNotes(commits: Commit[], options: ResolvedChangelogOptions, layout: NotesLayout = {}): ReleaseNotes {
+  const types = layout.types || options.types
+  const breaking: Commit[] = []
+  const changes: Commit[] = []
+  const labeled: Record<string, Commit[]> = {}
+  for (const commit of commits) {
+    const section = getLabelSection(commit, options)
+    const isBreaking = commit.isBreaking || section === 'breaking'
+    if (isBreaking && !layout.breakingType)
+      breaking.push(commit)
+    else if (section && section !== 'breaking' && !types[section])
+      (labeled[section] ||= []).push(commit)
+    else if (section && section !== 'breaking')
+      changes.push({ ...commit, type: section })
+    else if (isBreaking)
+      changes.push({ ...commit, isBreaking, type: types[commit.type] ? commit.type : layout.breakingType! })
+    else
+      changes.push(commit)
+  }
+
+  // types sharing a title are listed in one section, in the order of their first type
+  const titles = groupBy(Object.keys(types).map(type => ({ type, title: types[type].title })), 'title')
+  const sections: ReleaseSection[] = [
+    toSection('breaking', 'breaking', options.titles.breakingChanges!, breaking, options),
+    // label sections follow the order of the config
+    ...[...new Set(Object.values(options.labels?.sections || {}))]
+      .map(title => toSection('label', title, title, labeled[title] || [], options)),
+    ...Object.entries(titles)
+      .map(([title, items]) => toSection('type', items[0].type, title, changes.filter(c => items.some(i => i.type === c.type)), options)),
+  ].filter(section => section.entries.length)
+
+  const authors = new Map<string, AuthorInfo>()
+  for (const author of sections.flatMap(section => section.entries.flatMap(entry => entry.authors)))
+    authors.set(author.login || author.name, authors.get(author.login || author.name) || author)
+
+  return {
+    from: String(options.from),
+    to: String(options.to),
+    repo: options.repo as string | undefined,
+    compareUrl: getProvider(options.repoProvider, options.providers).urls.compare(options),
+    sections,
+    authors: [...authors.values()],
+  }
+}
+
+function groupBy<T>(items: T[], key: string, groups: Record<string, T[]> = {}) {
+  for (const item of items) {
+    const v = (item as any)[key] as string
+    groups[v] = groups[v] || []
+    groups[v].push(item)
+  }
+  return groups
+}
+
+function capitalize(str: string) {
+  return str.charAt(0).toUpperCase() + str.slice(1)
+}
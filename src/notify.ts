@@ -0,0 +1,183 @@
+import type { LocaleMessages } from './locales'
+import type { ReleaseSession } from './session'
+import type { NotificationTarget, NotificationType, ResolvedChangelogOptions } from './types'
+import { warn } from './http'
+import { locales, resolveMessages } from './locales'
+
+export interface ReleaseNotification {
+  /**
+   * Repository and release name, e.g. `owner/repo v1.2.0`
+   */
+  title: string
+  tag: string
+  repo: string
+  md: string
+  /**
+   * Link to the release, the compare view when no release was created
+   */
+  url: string
+  compareUrl: string
+  /**
+   * Text of the links added to the message
+   */
+  messages?: Pick<LocaleMessages, 'viewRelease' | 'fullReleaseNotes'>
+}
+
+interface Platform {
+  /**
+   * Longest release notes sent in a message, before the link to the release
+   */
+  maxLength: number
+  format: (md: string) => string
+  link: (text: string, url: string) => string
+  body: (notification: ReleaseNotification, text: string, target: NotificationTarget, truncated: boolean) => Record<string, unknown>
+}
+
+const LinkRE = /\[([^\]]+)\]\(([^)\s]+)\)/g
+const HeadingRE = /^#{1,6} (.*)$/gm
+
+/**
+ * Markdown without the html used by the default style for the release page
+ */
+export function cleanMarkdown(md: string) {
+  return md
+    .replace(/<samp>(.*?)<\/samp>/g, '$1')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/^(#{1,6}) +/gm, '$1 ')
+    // keep the indentation of nested lists
+    .replace(/(\S) {2,}/g, '$1 ')
+}
+
+/**
+ * Slack `mrkdwn`: single `*` for bold, `<url|text>` links and no headings
+ */
+export function toSlackText(md: string) {
+  return cleanMarkdown(md)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(LinkRE, '<$2|$1>')
+    .replace(HeadingRE, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/^(\s*)- /gm, '$1• ')
+}
+
+/**
+ * Cut `text` at the last line that fits in `maxLength`, so that no link or list item is broken
+ */
+export function truncate(text: string, maxLength: number) {
+  if (text.length <= maxLength)
+    return { text, truncated: false }
+  const cut = text.lastIndexOf('\n', maxLength)
+  return { text: `${text.slice(0, cut > 0 ? cut : maxLength).trimEnd()}\n…`, truncated: true }
+}
+
+const platforms: Record<NotificationType, Platform> = {
+  slack: {
+    maxLength: 3000,
+    format: toSlackText,
+    link: (text, url) => `<${url}|${text}>`,
+    body: ({ title, url }, text, target) => ({
+      text: `*<${url}|${title}>*\n\n${text}`,
+      channel: target.channel,
+      username: target.username,
+    }),
+  },
+  mattermost: {
+    maxLength: 16000,
+    format: cleanMarkdown,
+    link: (text, url) => `[${text}](${url})`,
+    body: ({ title, url }, text, target) => ({
+      text: `#### [${title}](${url})\n\n${text}`,
+      channel: target.channel,
+      username: target.username,
+    }),
+  },
+  teams: {
+    maxLength: 20000,
+    // text blocks of adaptive cards support markdown without headings
+    format: md => cleanMarkdown(md).replace(HeadingRE, '**$1**'),
+    link: (text, url) => `[${text}](${url})`,
+    body: ({ title, url, messages = locales.en }, text) => ({
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            { type: 'TextBlock', text: title, weight: 'Bolder', size: 'Medium', wrap: true },
+            { type: 'TextBlock', text, wrap: true },
+          ],
+          actions: [{ type: 'Action.OpenUrl', title: messages.viewRelease, url }],
+        },
+      }],
+    }),
+  },
+  webhook: {
+    maxLength: Infinity,
+    format: md => md,
+    link: (text, url) => `[${text}](${url})`,
+    body: (notification, text, _target, truncated) => ({
+      event: 'release',
+      title: notification.title,
+      tag: notification.tag,
+      repo: notification.repo,
+      url: notification.url,
+      compareUrl: notification.compareUrl,
+      md: text,
+      truncated,
+    }),
+  },
+}
+
+/**
+ * Request body of the incoming webhook of `target`
+ */
+export function buildNotificationBody(target: NotificationTarget, notification: ReleaseNotification) {
+  const platform = platforms[target.type]
+  if (!platform)
+    throw new Error(`Unknown notification type: ${target.type}, expected one of ${Object.keys(platforms).join(', ')}`)
+  const { text, truncated } = truncate(platform.format(notification.md), target.maxLength ?? platform.maxLength)
+  const { fullReleaseNotes } = notification.messages || locales.en
+  const full = truncated ? `${text}\n${platform.link(fullReleaseNotes, notification.url)}` : text
+  return platform.body(notification, full, target, truncated)
+}
+
+/**
+ * Post the release notes to every target of `notifications`.
+ * A failing target is reported and does not fail the release.
+ * Returns the targets that were notified.
+ */
+export async function sendNotifications(
+  config: ResolvedChangelogOptions,
+  release: { md: string, releaseLink?: string, compareUrl: string },
+  session: ReleaseSession,
+) {
+  const notification: ReleaseNotification = {
+    title: `${config.repo} ${config.name || config.to}`,
+    tag: String(config.to),
+    repo: String(config.repo),
+    md: release.md,
+    url: release.releaseLink || release.compareUrl,
+    compareUrl: release.compareUrl,
+    messages: resolveMessages(config),
+  }
+
+  const notified: NotificationTarget[] = []
+  for (const target of config.notifications || []) {
+    try {
+      await session.request(target.url, {
+        method: 'POST',
+        headers: target.headers,
+        body: buildNotificationBody(target, notification),
+      })
+      notified.push(target)
+    }
+    catch (error) {
+      warn(`Failed to send the ${target.type} notification`, error)
+    }
+  }
+  return notified
+}
@@ -1,8 +1,53 @@
-import type { GitCommit, RawGitCommit } from 'changelogen'
-import type { ChangelogenOptions } from './types'
+import type { RawGitCommit } from 'changelogen'
+import type { ChangelogenOptions, ChangelogOptions, Commit, CommitReference } from './types'
 import { notNullish } from '@antfu/utils'
 import { parseGitCommit } from 'changelogen'
 
-export function parseCommits(commits: RawGitCommit[], config: ChangelogenOptions): GitCommit[] {
-  return commits.map(commit => parseGitCommit(commit, config)).filter(notNullish)
+// `#12`, `!34` and cross-project references like `group/sub/project#12`,
+// wrapped in parentheses when pointing to the pull request of a squash merge, e.g. `(#12)`
+const ReferenceRE = /(\([ a-z]*)?(?<![\w/.-])((?:[\w.-]+\/)+[\w.-]+)?([#!])(\d+)\b/gi
+const WrappedIssueRE = /\((?:[a-z]+ +)*(?:(?:[\w.-]+\/)+[\w.-]+)?#\d+\s*\)/gi
+const WrappedMergeRequestRE = /\((?:[a-z]+ +)*(?:(?:[\w.-]+\/)+[\w.-]+)?!\d+\s*\)/gi
+
+export function parseCommits(commits: RawGitCommit[], config: ChangelogenOptions & Pick<ChangelogOptions, 'repoProvider'>): Commit[] {
+  return commits
+    .map((commit) => {
+      const parsed = parseGitCommit(commit, config)
+      if (!parsed)
+        return null
+      let description = parsed.description.replace(WrappedIssueRE, '')
+      if (config.repoProvider === 'gitlab')
+        description = description.replace(WrappedMergeRequestRE, '')
+      return {
+        ...parsed,
+        description: description.trim(),
+        references: parseReferences(commit, config.repoProvider),
+      }
+    })
+    .filter(notNullish)
+}
+
+/**
+ * Provider-aware replacement for the references found by changelogen.
+ * On GitLab `!N` is a merge request and `#N` is always an issue,
+ * elsewhere `#N` wrapped in parentheses is treated as a pull request.
+ */
+export function parseReferences(commit: RawGitCommit, repoProvider?: string): CommitReference[] {
+  const isGitLab = repoProvider === 'gitlab'
+  const references: CommitReference[] = []
+
+  for (const [, wrapped, repo, sigil, id] of commit.message.matchAll(ReferenceRE)) {
+    if (sigil === '!' && !isGitLab)
+      continue
+    const type = sigil === '!' || (wrapped && !isGitLab)
+      ? 'pull-request'
+      : 'issue'
+    const value = `${sigil}${id}`
+    if (references.some(i => i.value === value && i.repo === repo))
+      continue
+    references.push(repo ? { type, value, repo } : { type, value })
+  }
+
+  references.push({ value: commit.shortHash, type: 'hash' })
+  return references
 }
@@ -1,57 +1,158 @@
-import type { AuthorInfo, ChangelogOptions, Commit } from './types'
+import type { RawGitCommit } from 'changelogen'
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit, PullRequestInfo } from './types'
+import type { RepoUrls } from './urls'
+import * as bitbucket from './bitbucket'
+import * as gitea from './gitea'
 import * as github from './github'
 import * as gitlab from './gitlab'
+import { createSession } from './session'
+import { bitbucketUrls, giteaUrls, githubUrls, gitlabUrls } from './urls'
 
+/**
+ * All methods receive the session of the current run, which holds the HTTP client
+ * and the lookups that should be shared between calls (e.g. project ids)
+ */
 export interface RepoProvider {
-  sendRelease: (options: ChangelogOptions, content: string) => Promise<string>
-  resolveAuthors: (commits: Commit[], options: ChangelogOptions) => Promise<AuthorInfo[]>
-  hasTag: (tag: string, options: ChangelogOptions) => Promise<boolean>
-  uploadAssets: (options: ChangelogOptions, assets: string | string[]) => Promise<void>
+  sendRelease: (options: ChangelogOptions, content: string, session: ReleaseSession) => Promise<string>
+  resolveAuthors: (commits: Commit[], options: ChangelogOptions, session: ReleaseSession) => Promise<AuthorInfo[]>
+  hasTag: (tag: string, options: ChangelogOptions, session: ReleaseSession) => Promise<boolean>
+  uploadAssets: (options: ChangelogOptions, assets: string | string[], session: ReleaseSession) => Promise<void>
+  /**
+   * Create a tag at the commit `sha`, annotated with `message` when set
+   */
+  createTag?: (tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session: ReleaseSession) => Promise<void>
+  /**
+   * Find the merged pull requests the commits belong to, keyed by commit short hash
+   */
+  resolvePullRequests?: (commits: RawGitCommit[], options: ChangelogOptions, session: ReleaseSession) => Promise<Map<string, PullRequestInfo>>
+  urls: RepoUrls
+}
+
+export interface CustomRepoProvider extends RepoProvider {
+  /**
+   * Name used in logs and error messages, defaults to the key it is registered with
+   */
+  displayName?: string
+  /**
+   * Default `baseUrl` when not set in the config
+   */
+  baseUrl?: string
+  /**
+   * Default `baseUrlApi` when not set in the config
+   */
+  baseUrlApi?: string
+}
+
+export function defineProvider(provider: CustomRepoProvider) {
+  return provider
 }
 
 class GitHubProvider implements RepoProvider {
-  async sendRelease(options: ChangelogOptions, content: string): Promise<string> {
-    return github.sendRelease(options, content)
+  readonly urls = githubUrls
+
+  async sendRelease(options: ChangelogOptions, content: string, session: ReleaseSession): Promise<string> {
+    return github.sendRelease(options, content, session)
+  }
+
+  async resolveAuthors(commits: Commit[], options: ChangelogOptions, session: ReleaseSession): Promise<AuthorInfo[]> {
+    return github.resolveAuthors(commits, options, session)
+  }
+
+  async hasTag(tag: string, options: ChangelogOptions, session: ReleaseSession): Promise<boolean> {
+    return github.hasTagOnGitHub(tag, options, session)
   }
 
-  async resolveAuthors(commits: Commit[], options: ChangelogOptions): Promise<AuthorInfo[]> {
-    return github.resolveAuthors(commits, options)
+  async uploadAssets(options: ChangelogOptions, assets: string | string[], session: ReleaseSession): Promise<void> {
+    return github.uploadAssets(options, assets, session)
   }
 
-  async hasTag(tag: string, options: ChangelogOptions): Promise<boolean> {
-    return github.hasTagOnGitHub(tag, options)
+  async createTag(tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session: ReleaseSession): Promise<void> {
+    return github.createTagOnGitHub(tag, sha, message, options, session)
   }
 
-  async uploadAssets(options: ChangelogOptions, assets: string | string[]): Promise<void> {
-    return github.uploadAssets(options, assets)
+  async resolvePullRequests(commits: RawGitCommit[], options: ChangelogOptions, session: ReleaseSession): Promise<Map<string, PullRequestInfo>> {
+    return github.resolvePullRequests(commits, options, session)
   }
 }
 
 class GitLabProvider implements RepoProvider {
-  async sendRelease(options: ChangelogOptions, content: string): Promise<string> {
-    return gitlab.sendRelease(options, content)
+  readonly urls = gitlabUrls
+
+  async sendRelease(options: ChangelogOptions, content: string, session: ReleaseSession): Promise<string> {
+    return gitlab.sendRelease(options, content, session)
+  }
+
+  async resolveAuthors(commits: Commit[], options: ChangelogOptions, session: ReleaseSession): Promise<AuthorInfo[]> {
+    return gitlab.resolveAuthors(commits, options, session)
+  }
+
+  async hasTag(tag: string, options: ChangelogOptions, session: ReleaseSession): Promise<boolean> {
+    return gitlab.hasTagOnGitLab(tag, options, session)
   }
 
-  async resolveAuthors(commits: Commit[], options: ChangelogOptions): Promise<AuthorInfo[]> {
-    return gitlab.resolveAuthors(commits, options)
+  async uploadAssets(options: ChangelogOptions, assets: string | string[], session: ReleaseSession): Promise<void> {
+    return gitlab.uploadAssets(options, assets, session)
   }
 
-  async hasTag(tag: string, options: ChangelogOptions): Promise<boolean> {
-    return gitlab.hasTagOnGitLab(tag, options)
+  async createTag(tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session: ReleaseSession): Promise<void> {
+    return gitlab.createTagOnGitLab(tag, sha, message, options, session)
   }
 
-  async uploadAssets(options: ChangelogOptions, assets: string | string[]): Promise<void> {
-    return gitlab.uploadAssets(options, assets)
+  async resolvePullRequests(commits: RawGitCommit[], options: ChangelogOptions, session: ReleaseSession): Promise<Map<string, PullRequestInfo>> {
+    return gitlab.resolvePullRequests(commits, options, session)
+  }
+}
+
+class GiteaProvider implements RepoProvider {
+  readonly urls = giteaUrls
+
+  async sendRelease(options: ChangelogOptions, content: string, session: ReleaseSession): Promise<string> {
+    return gitea.sendRelease(options, content, session)
+  }
+
+  async resolveAuthors(commits: Commit[], options: ChangelogOptions, session: ReleaseSession): Promise<AuthorInfo[]> {
+    return gitea.resolveAuthors(commits, options, session)
+  }
+
+  async hasTag(tag: string, options: ChangelogOptions, session: ReleaseSession): Promise<boolean> {
+    return gitea.hasTagOnGitea(tag, options, session)
+  }
+
+  async uploadAssets(options: ChangelogOptions, assets: string | string[], session: ReleaseSession): Promise<void> {
+    return gitea.uploadAssets(options, assets, session)
+  }
+}
+
+class BitbucketProvider implements RepoProvider {
+  readonly urls = bitbucketUrls
+
+  async sendRelease(options: ChangelogOptions, content: string, session: ReleaseSession): Promise<string> {
+    return bitbucket.sendRelease(options, content, session)
+  }
+
+  async resolveAuthors(commits: Commit[], options: ChangelogOptions, session: ReleaseSession): Promise<AuthorInfo[]> {
+    return bitbucket.resolveAuthors(commits, options, session)
+  }
+
+  async hasTag(tag: string, options: ChangelogOptions, session: ReleaseSession): Promise<boolean> {
+    return bitbucket.hasTagOnBitbucket(tag, options, session)
+  }
+
+  async uploadAssets(options: ChangelogOptions, assets: string | string[], session: ReleaseSession): Promise<void> {
+    return bitbucket.uploadAssets(options, assets, session)
   }
 }
 
 const providers = {
   github: new GitHubProvider(),
   gitlab: new GitLabProvider(),
+  gitea: new GiteaProvider(),
+  bitbucket: new BitbucketProvider(),
 }
 
-export function getProvider(repoProvider: string): RepoProvider {
-  const provider = providers[repoProvider as keyof typeof providers]
+export function getProvider(repoProvider: string, customProviders?: Record<string, CustomRepoProvider>): RepoProvider {
+  const provider = customProviders?.[repoProvider] || providers[repoProvider as keyof typeof providers]
   if (!provider) {
     throw new Error(`Unsupported repository provider: ${repoProvider}`)
   }
@@ -59,22 +160,36 @@ export function getProvider(repoProvider: string): RepoProvider {
 }
 
 // Export unified functions that delegate to the appropriate provider
-export async function sendRelease(options: ChangelogOptions, content: string): Promise<string> {
-  const provider = getProvider(options.repoProvider || 'github')
-  return provider.sendRelease(options, content)
+export async function sendRelease(options: ChangelogOptions, content: string, session = createSession(options)): Promise<string> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  return provider.sendRelease(options, content, session)
+}
+
+export async function resolveAuthors(commits: Commit[], options: ChangelogOptions, session = createSession(options)): Promise<AuthorInfo[]> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  return provider.resolveAuthors(commits, options, session)
+}
+
+export async function hasTag(tag: string, options: ChangelogOptions, session = createSession(options)): Promise<boolean> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  return provider.hasTag(tag, options, session)
 }
 
-export async function resolveAuthors(commits: Commit[], options: ChangelogOptions): Promise<AuthorInfo[]> {
-  const provider = getProvider(options.repoProvider || 'github')
-  return provider.resolveAuthors(commits, options)
+export async function uploadAssets(options: ChangelogOptions, assets: string | string[], session = createSession(options)): Promise<void> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  return provider.uploadAssets(options, assets, session)
 }
 
-export async function hasTag(tag: string, options: ChangelogOptions): Promise<boolean> {
-  const provider = getProvider(options.repoProvider || 'github')
-  return provider.hasTag(tag, options)
+export async function createTag(tag: string, sha: string, message: string | undefined, options: ChangelogOptions, session = createSession(options)): Promise<void> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  if (!provider.createTag)
+    throw new Error(`Repository provider ${options.repoProvider} does not support creating tags`)
+  return provider.createTag(tag, sha, message, options, session)
 }
 
-export async function uploadAssets(options: ChangelogOptions, assets: string | string[]): Promise<void> {
-  const provider = getProvider(options.repoProvider || 'github')
-  return provider.uploadAssets(options, assets)
+export async function resolvePullRequests(commits: RawGitCommit[], options: ChangelogOptions, session = createSession(options)): Promise<Map<string, PullRequestInfo>> {
+  const provider = getProvider(options.repoProvider || 'github', options.providers)
+  if (!provider.resolvePullRequests)
+    throw new Error(`Repository provider ${options.repoProvider} does not support building release notes from pull requests`)
+  return provider.resolvePullRequests(commits, options, session)
 }
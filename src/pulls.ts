@@ -0,0 +1,109 @@
+import type { RawGitCommit } from 'changelogen'
+import type { DroppedCommit } from './filters'
+import type { Commit, CommitReference, PullRequestInfo, ResolvedChangelogOptions } from './types'
+import { toDropped } from './filters'
+import { parseCommits, parseReferences } from './parse'
+import { resolvePullRequests } from './providers'
+import { createSession } from './session'
+
+/**
+ * Build the commit list from the merged pull requests the commits belong to.
+ * Each pull request becomes a single entry, commits that are not associated
+ * with any pull request are parsed as usual. `dropped` holds the commits folded
+ * into an entry and the ones left out, with the reason.
+ */
+export async function parsePullRequests(commits: RawGitCommit[], config: ResolvedChangelogOptions, session = createSession(config)) {
+  const pulls = await resolvePullRequests(commits, config, session)
+  const entries = new Map<PullRequestInfo, Commit | undefined>()
+  const result: Commit[] = []
+  const dropped: DroppedCommit[] = []
+
+  // keep the order of `git log`, a pull request is placed at its most recent commit
+  for (const commit of commits) {
+    const pr = pulls.get(commit.shortHash)
+    if (!pr) {
+      const parsed = parseCommits([commit], config)
+      if (parsed.length)
+        result.push(...parsed)
+      else
+        dropped.push(toDropped(commit, 'not a conventional commit'))
+      continue
+    }
+    if (!entries.has(pr)) {
+      const parsed = pullRequestToCommit(pr, commit, config)
+      entries.set(pr, parsed)
+      if (parsed)
+        result.push(parsed)
+    }
+    const entry = entries.get(pr)
+    if (!entry)
+      dropped.push(toDropped(commit, `part of ${getPullRequestRef(pr, config)}, which has neither a conventional title nor a mapped label`))
+    else if (entry.shortHash !== commit.shortHash)
+      dropped.push(toDropped(commit, `folded into ${getPullRequestRef(pr, config)}`))
+  }
+
+  return { commits: result, dropped }
+}
+
+function getPullRequestRef(pr: PullRequestInfo, config: ResolvedChangelogOptions) {
+  return `${config.repoProvider === 'gitlab' ? '!' : '#'}${pr.number}`
+}
+
+function pullRequestToCommit(pr: PullRequestInfo, commit: RawGitCommit, config: ResolvedChangelogOptions): Commit | undefined {
+  const raw: RawGitCommit = {
+    message: pr.title,
+    body: pr.body,
+    shortHash: pr.mergeCommit?.slice(0, 7) || commit.shortHash,
+    author: commit.author,
+  }
+  const [parsed] = parseCommits([raw], config)
+  const labelType = pr.labels.map(label => config.labelTypes?.[label]).find(Boolean)
+
+  // neither a conventional title nor a mapped label, skip it like a non-conventional commit
+  if (!parsed && !labelType)
+    return undefined
+
+  const value = getPullRequestRef(pr, config)
+  const references: CommitReference[] = [
+    { type: 'pull-request', value },
+    ...(parsed?.references ?? parseReferences(raw, config.repoProvider))
+      .filter(ref => ref.repo || ref.value !== value),
+  ]
+
+  const base: Commit = parsed ?? {
+    ...raw,
+    authors: [commit.author],
+    description: pr.title,
+    type: '',
+    scope: '',
+    references: [],
+    isBreaking: false,
+  }
+
+  return {
+    ...base,
+    type: labelType || base.type,
+    references,
+    pullRequest: pr,
+    labels: pr.labels,
+    resolvedAuthors: pr.author
+      ? [{ login: pr.author, name: pr.authorName || pr.author, email: '', commits: [raw.shortHash] }]
+      : undefined,
+  }
+}
+
+/**
+ * Attach the labels of the associated pull requests to the commits
+ */
+export async function resolveLabels(commits: Commit[], config: ResolvedChangelogOptions, session = createSession(config)) {
+  const pending = commits.filter(c => !c.labels)
+  if (!pending.length)
+    return
+  const pulls = await resolvePullRequests(pending, config, session)
+  for (const commit of pending)
+    commit.labels = pulls.get(commit.shortHash)?.labels || []
+}
+
+export function hasLabelRules(config: ResolvedChangelogOptions) {
+  return !!(Object.keys(config.labels?.sections || {}).length || config.labels?.exclude?.length)
+}
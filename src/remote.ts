@@ -0,0 +1,159 @@
+import type { FetchError } from 'ofetch'
+import type { RepoProviderType } from './types'
+import { $request } from './http'
+
+export interface GitRemote {
+  /**
+   * Host name without port, lower cased
+   */
+  host: string
+  /**
+   * Web URL of the host, e.g. `https://gitlab.company.com`
+   */
+  webUrl: string
+  /**
+   * Repository path without `.git`, including nested groups, e.g. `group/sub/project`
+   */
+  repo: string
+}
+
+/**
+ * Parse HTTPS, `ssh://` and scp-like (`git@host:group/project.git`) remote URLs
+ */
+export function parseRemoteUrl(url: string): GitRemote | undefined {
+  const input = url.trim()
+  let host: string
+  let path: string
+  let webUrl: string
+
+  if (/^[a-z][\w+.-]*:\/\//i.test(input)) {
+    let parsed: URL
+    try {
+      parsed = new URL(input)
+    }
+    catch {
+      return undefined
+    }
+    host = parsed.hostname
+    path = decodeURIComponent(parsed.pathname)
+    // the port of an ssh remote has nothing to do with the web interface
+    webUrl = /^https?:$/.test(parsed.protocol)
+      ? `${parsed.protocol}//${parsed.host}`
+      : `https://${host}`
+  }
+  else {
+    const match = /^(?:[^@/:]+@)?([^@/:]+):(.+)$/.exec(input)
+    if (!match)
+      return undefined
+    host = match[1]
+    path = match[2]
+    webUrl = `https://${host}`
+  }
+
+  const repo = path.replace(/\.git\/?$/, '').split('/').filter(Boolean).join('/')
+  if (!host || !repo)
+    return undefined
+  return { host: host.toLowerCase(), webUrl: webUrl.toLowerCase(), repo }
+}
+
+function toUrl(baseUrl: string) {
+  try {
+    return new URL(/^[a-z][\w+.-]*:\/\//i.test(baseUrl) ? baseUrl : `https://${baseUrl}`)
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Repository path of the remote, when it is hosted on `baseUrl`
+ */
+export function getRepoFromRemote(remote: GitRemote, baseUrl: string) {
+  const base = toUrl(baseUrl)
+  if (!base || base.hostname.toLowerCase() !== remote.host)
+    return undefined
+  // instances served under a path (e.g. `https://host/gitlab`) have it in their HTTPS remotes
+  const prefix = base.pathname.split('/').filter(Boolean).join('/')
+  if (prefix && remote.repo.startsWith(`${prefix}/`))
+    return remote.repo.slice(prefix.length + 1)
+  return remote.repo
+}
+
+const knownHosts: Record<string, RepoProviderType> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'gitea.com': 'gitea',
+  'codeberg.org': 'gitea',
+  'bitbucket.org': 'bitbucket',
+}
+
+// self-hosted instances are commonly named after the software, e.g. `gitlab.company.com`
+const hostHints: [RegExp, RepoProviderType][] = [
+  [/gitlab/, 'gitlab'],
+  [/github/, 'github'],
+  [/gitea|forgejo/, 'gitea'],
+  [/bitbucket/, 'bitbucket'],
+]
+
+/**
+ * Provider of a host from the `hosts` config, well-known hosts or the host name, without any request
+ */
+export function getKnownProvider(host: string, hosts: Record<string, string> = {}): string | undefined {
+  return hosts[host]
+    || knownHosts[host]
+    || hostHints.find(([re]) => re.test(host))?.[1]
+}
+
+// endpoints that only exist on the respective provider, and answer without authentication
+const probes: [RepoProviderType, string][] = [
+  ['gitlab', '/api/v4/version'],
+  ['gitea', '/api/v1/version'],
+  ['github', '/api/v3/meta'],
+  ['bitbucket', '/rest/api/1.0/application-properties'],
+]
+
+async function probeProvider(webUrl: string): Promise<RepoProviderType | undefined> {
+  for (const [provider, path] of probes) {
+    try {
+      const data = await $request(`${webUrl}${path}`, { retries: 0, timeout: 5000 })
+      // catch-all pages of unrelated servers answer with HTML
+      if (data && typeof data === 'object')
+        return provider
+    }
+    catch (error) {
+      // the version endpoint of GitLab requires a token, but still identifies it
+      if (provider === 'gitlab' && (error as FetchError).response?.status === 401)
+        return provider
+    }
+  }
+  return undefined
+}
+
+/**
+ * Detect the provider serving `webUrl`, probing the API of unknown self-hosted instances
+ */
+export async function detectProvider(webUrl: string, hosts: Record<string, string> = {}): Promise<string | undefined> {
+  const url = toUrl(webUrl)
+  if (!url)
+    return undefined
+  return getKnownProvider(url.hostname.toLowerCase(), hosts)
+    || await probeProvider(url.origin + url.pathname.replace(/\/+$/, ''))
+}
+
+/**
+ * Default API URL of a built-in provider served from `baseUrl`
+ */
+export function getApiUrl(repoProvider: string, baseUrl: string): string | undefined {
+  const base = baseUrl.replace(/\/+$/, '')
+  switch (repoProvider) {
+    case 'github':
+      return base === 'https://github.com' ? 'https://api.github.com' : `${base}/api/v3`
+    case 'gitlab':
+      return `${base}/api/v4`
+    case 'gitea':
+      return `${base}/api/v1`
+    case 'bitbucket':
+      return base === 'https://bitbucket.org' ? 'https://api.bitbucket.org/2.0' : `${base}/rest/api/1.0`
+  }
+  return undefined
+}
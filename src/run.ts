@@ -1,27 +1,59 @@
-import type { ChangelogOptions, Commit, ResolvedChangelogOptions } from './types'
-import fs from 'node:fs/promises'
+import type { DroppedCommit } from './filters'
+import type { ReleaseNotes, ReleaseReference, ReleaseSection } from './notes'
+import type { CustomRepoProvider } from './providers'
+import type { ReleaseSession } from './session'
+import type { AuthorInfo, ChangelogOptions, Commit, ResolvedChangelogOptions } from './types'
+import { hasAuth } from './auth'
+import { writeChangelog } from './changelog'
+import { writeOutput } from './formats'
 import { generate } from './generate'
-import { isRepoShallow } from './git'
-import { hasTag, sendRelease, uploadAssets } from './providers'
+import { getRefCommit, isRefGitBranch, isRepoShallow } from './git'
+import { resolveReferences } from './notes'
+import { cleanMarkdown, sendNotifications } from './notify'
+import { createTag, getProvider, hasTag, sendRelease, uploadAssets } from './providers'
 
 export interface ReleaseContext {
   config: ResolvedChangelogOptions
   md: string
+  /**
+   * Sections and entries the markdown was rendered from
+   */
+  notes: ReleaseNotes
   commits: Commit[]
+  /**
+   * Commits left out of the release notes, with the reason
+   */
+  dropped: DroppedCommit[]
   webUrl: string
   compareUrl: string
+  /**
+   * Provider state of this run, reused when performing the release
+   */
+  session: ReleaseSession
 }
 
-export type ReleaseOutcome = 'dry-run' | 'output-saved' | 'released'
+export type ReleaseOutcome = 'dry-run' | 'output-saved' | 'changelog-updated' | 'released'
 
 export interface ReleaseResult {
   outcome: ReleaseOutcome
   outputPath?: string
+  /**
+   * Whether the updated changelog file was committed
+   */
+  committed?: boolean
   releaseLink?: string
+  /**
+   * Whether the tag was created through the provider API, see `createTag`
+   */
+  tagCreated?: boolean
   uploadedAssets?: string[]
+  /**
+   * Types of the `notifications` targets that were notified
+   */
+  notified?: string[]
 }
 
-export type ReleaseErrorCode = 'MISSING_TOKEN' | 'MISSING_TAG' | 'SHALLOW_REPO'
+export type ReleaseErrorCode = 'MISSING_TOKEN' | 'MISSING_TAG' | 'INVALID_TAG' | 'SHALLOW_REPO'
 
 export interface ReleaseErrorDetails {
   webUrl: string
@@ -42,16 +74,19 @@ export class ReleaseExecutionError extends Error {
 }
 
 export async function prepareRelease(options: ChangelogOptions): Promise<ReleaseContext> {
-  const { config, md, commits } = await generate(options)
+  const { config, md, notes, commits, dropped, session } = await generate(options)
   const webUrl = buildReleaseUrl(config, md)
   const compareUrl = buildCompareUrl(config)
 
   return {
     config,
     md,
+    notes,
     commits,
+    dropped,
     webUrl,
     compareUrl,
+    session,
   }
 }
 
@@ -63,24 +98,32 @@ export async function performRelease(
   context: ReleaseContext,
   options: PerformReleaseOptions = {},
 ): Promise<ReleaseResult> {
-  const { config, md, commits, webUrl } = context
+  const { config, md, notes, commits, webUrl, session } = context
 
   if (config.dry)
     return { outcome: 'dry-run' }
 
   if (typeof config.output === 'string') {
-    await fs.writeFile(config.output, md, 'utf-8')
     return {
       outcome: 'output-saved',
-      outputPath: config.output,
+      outputPath: await writeOutput(config, notes, md),
     }
   }
 
-  if (!config.token) {
+  if (config.changelog) {
+    const { path, committed } = await writeChangelog(config, md)
+    return {
+      outcome: 'changelog-updated',
+      outputPath: path,
+      committed,
+    }
+  }
+
+  if (!hasAuth(config)) {
     const tokenEnvName = getTokenEnvName(config.repoProvider)
     throw new ReleaseExecutionError(
       'MISSING_TOKEN',
-      getMissingTokenMessage(config.repoProvider, tokenEnvName),
+      getMissingTokenMessage(getProviderName(config.repoProvider, config.providers), tokenEnvName),
       {
         webUrl,
         tokenEnvName,
@@ -89,12 +132,31 @@ export async function performRelease(
     )
   }
 
-  const hasTargetTag = await hasTag(config.to, config)
-  if (!hasTargetTag) {
-    const providerName = getProviderName(config.repoProvider)
+  const hasTargetTag = await hasTag(config.to, config, session)
+  if (!hasTargetTag && config.createTag) {
+    if (await isRefGitBranch(config.to)) {
+      throw new ReleaseExecutionError(
+        'INVALID_TAG',
+        `Can not create a tag for the branch "${config.to}", set the tag to create with \`to\`. Release skipped.`,
+        { webUrl, compareUrl: context.compareUrl },
+      )
+    }
+    // never guess the commit, a wrong one would be released under the tag
+    const sha = await getRefCommit(config.to).catch(() => undefined)
+    if (!sha) {
+      throw new ReleaseExecutionError(
+        'MISSING_TAG',
+        `Can not create the tag "${config.to}", it does not exist locally. Create it with \`git tag ${config.to}\` first. Release skipped.`,
+        { webUrl, compareUrl: context.compareUrl },
+      )
+    }
+    await createTag(config.to, sha, config.createTag === 'annotated' ? cleanMarkdown(md) : undefined, config, session)
+  }
+  else if (!hasTargetTag) {
+    const providerName = getProviderName(config.repoProvider, config.providers)
     throw new ReleaseExecutionError(
       'MISSING_TAG',
-      `Current ref "${config.to}" is not available as tags on ${providerName}. Release skipped.`,
+      `Current ref "${config.to}" is not available as tags on ${providerName}. Release skipped, set \`createTag\` to create it.`,
       {
         webUrl,
         compareUrl: context.compareUrl,
@@ -113,17 +175,23 @@ export async function performRelease(
     )
   }
 
-  const releaseLink = await sendRelease(config, md)
+  const releaseLink = await sendRelease(config, md, session)
 
   const assetsInput = options.assets ?? config.assets
   const normalizedAssets = normalizeAssets(assetsInput)
   if (assetsInput && normalizedAssets.length > 0)
-    await uploadAssets(config, assetsInput)
+    await uploadAssets(config, assetsInput, session)
+
+  const notified = config.notify !== false && config.notifications?.length
+    ? await sendNotifications(config, { md, releaseLink, compareUrl: context.compareUrl }, session)
+    : []
 
   return {
     outcome: 'released',
     releaseLink,
+    tagCreated: !hasTargetTag || undefined,
     uploadedAssets: normalizedAssets.length > 0 ? normalizedAssets : undefined,
+    notified: notified.length ? notified.map(target => target.type) : undefined,
   }
 }
 
@@ -141,7 +209,46 @@ export interface ExecuteChangelogOptions extends ChangelogOptions {
 
 export type ExecutionMode = 'release' | 'json' | 'print-md'
 
+/**
+ * Version of `ExecutionJsonPayload`, increased on breaking changes of its shape.
+ * The payload is described by `schema/json-payload.schema.json`.
+ */
+export const JSON_PAYLOAD_SCHEMA_VERSION = 1
+
+export interface JsonPayloadAuthor {
+  name: string
+  email?: string
+  login?: string
+}
+
+export interface JsonPayloadCommit {
+  type: string
+  scope: string
+  description: string
+  /**
+   * Short hash of the commit
+   */
+  hash: string
+  isBreaking: boolean
+  /**
+   * Issues and pull requests, with their links when the repository is known
+   */
+  references: ReleaseReference[]
+  authors: JsonPayloadAuthor[]
+}
+
+export interface JsonPayloadSection {
+  kind: ReleaseSection['kind']
+  key: string
+  title: string
+  /**
+   * Hashes of the commits listed in the section, in display order
+   */
+  commits: string[]
+}
+
 export interface ExecutionJsonPayload {
+  schemaVersion: typeof JSON_PAYLOAD_SCHEMA_VERSION
   md: string
   from: string
   to: string
@@ -151,6 +258,20 @@ export interface ExecutionJsonPayload {
   prerelease: boolean
   commitsCount: number
   compareUrl: string
+  /**
+   * Every parsed commit between `from` and `to`, including the ones without a section
+   */
+  commits: JsonPayloadCommit[]
+  sections: JsonPayloadSection[]
+  contributors: JsonPayloadAuthor[]
+  /**
+   * Set when the payload is built after performing the release
+   */
+  release?: {
+    outcome: ReleaseOutcome
+    url?: string
+    assets?: string[]
+  }
 }
 
 export interface ExecuteChangelogResult {
@@ -187,42 +308,47 @@ export async function executeChangelog(options: ExecuteChangelogOptions): Promis
     context,
     markdown,
     mode: 'release',
+    jsonPayload: buildJsonPayload(context, markdown, release),
     release,
   }
 }
 
 function buildReleaseUrl(config: ResolvedChangelogOptions, md: string): string {
-  const encodedBody = encodeURIComponent(md)
-  const encodedTag = encodeURIComponent(String(config.to))
-  const encodedTitle = encodeURIComponent(String(config.name || config.to))
-
-  if (config.repoProvider === 'gitlab') {
-    const encodedPrerelease = encodeURIComponent(String(config.prerelease))
-    return `${config.baseUrl}/${config.releaseRepo}/-/releases/new?tag_name=${encodedTag}&release_title=${encodedTitle}&release_notes=${encodedBody}&pre_release=${encodedPrerelease}`
-  }
-
-  return `${config.baseUrl}/${config.releaseRepo}/releases/new?title=${encodedTitle}&body=${encodedBody}&tag=${encodedTag}&prerelease=${config.prerelease}`
+  return getProvider(config.repoProvider, config.providers).urls.newRelease(config, md)
 }
 
 function buildCompareUrl(config: ResolvedChangelogOptions): string {
-  const comparePath = config.repoProvider === 'gitlab'
-    ? `/-/compare/${config.from}...${config.to}`
-    : `/compare/${config.from}...${config.to}`
-  return `${config.baseUrl}/${config.repo}${comparePath}`
+  return getProvider(config.repoProvider, config.providers).urls.compare(config)
 }
 
-function getProviderName(provider: string): 'GitHub' | 'GitLab' {
-  return provider === 'gitlab' ? 'GitLab' : 'GitHub'
+export function getProviderName(provider: string, customProviders?: Record<string, CustomRepoProvider>): string {
+  if (customProviders?.[provider])
+    return customProviders[provider].displayName || provider
+  if (provider === 'gitlab')
+    return 'GitLab'
+  if (provider === 'gitea')
+    return 'Gitea'
+  if (provider === 'bitbucket')
+    return 'Bitbucket'
+  return 'GitHub'
 }
 
-function getTokenEnvName(provider: string): string {
-  return provider === 'gitlab'
-    ? 'GITLAB_TOKEN or GITLAB_PRIVATE_TOKEN'
-    : 'GITHUB_TOKEN or GITHUB_TOKEN_PATH'
+function getTokenEnvName(provider: string): string | undefined {
+  if (provider === 'gitlab')
+    return 'GITLAB_TOKEN, GITLAB_PRIVATE_TOKEN or CI_JOB_TOKEN'
+  if (provider === 'gitea')
+    return 'GITEA_TOKEN, FORGEJO_TOKEN or GITEA_TOKEN_PATH'
+  if (provider === 'bitbucket')
+    return 'BITBUCKET_TOKEN, BITBUCKET_TOKEN_PATH or BITBUCKET_USERNAME with BITBUCKET_APP_PASSWORD'
+  if (provider === 'github')
+    return 'GITHUB_TOKEN, GITHUB_TOKEN_PATH or GITHUB_APP_ID with GITHUB_APP_PRIVATE_KEY'
+  // custom providers get their token from the config or `--token`
+  return undefined
 }
 
-function getMissingTokenMessage(provider: string, tokenEnvName: string): string {
-  const providerName = getProviderName(provider)
+function getMissingTokenMessage(providerName: string, tokenEnvName: string | undefined): string {
+  if (!tokenEnvName)
+    return `No ${providerName} token found, specify it via the \`token\` option or --token. Release skipped.`
   return `No ${providerName} token found, specify it via ${tokenEnvName} env. Release skipped.`
 }
 
@@ -241,9 +367,21 @@ function sanitizeMarkdown(input: string): string {
   return input.replace(/&nbsp;/g, '')
 }
 
-function buildJsonPayload(context: ReleaseContext, markdown: string): ExecutionJsonPayload {
-  const { config, commits, compareUrl } = context
+function toPayloadAuthor({ name, email, login }: AuthorInfo): JsonPayloadAuthor {
+  return { name, email: email || undefined, login }
+}
+
+export function buildJsonPayload(context: ReleaseContext, markdown: string, release?: ReleaseResult): ExecutionJsonPayload {
+  const { config, commits, notes, compareUrl } = context
+  const contributors = new Map<string, JsonPayloadAuthor>()
+  for (const author of commits.flatMap(commit => commit.resolvedAuthors || [])) {
+    const key = author.login || author.name
+    if (!contributors.has(key))
+      contributors.set(key, toPayloadAuthor(author))
+  }
+
   return {
+    schemaVersion: JSON_PAYLOAD_SCHEMA_VERSION,
     md: markdown,
     from: String(config.from),
     to: String(config.to),
@@ -253,5 +391,26 @@ function buildJsonPayload(context: ReleaseContext, markdown: string): ExecutionJ
     prerelease: !!config.prerelease,
     commitsCount: commits.length,
     compareUrl,
+    commits: commits.map(commit => ({
+      type: commit.type,
+      scope: commit.scope,
+      description: commit.description,
+      hash: commit.shortHash,
+      isBreaking: commit.isBreaking,
+      references: resolveReferences(commit, config).filter(ref => ref.type !== 'hash'),
+      authors: (commit.resolvedAuthors || []).map(toPayloadAuthor),
+    })),
+    sections: notes.sections.map(section => ({
+      kind: section.kind,
+      key: section.key,
+      title: section.title,
+      commits: section.entries.map(entry => entry.commit.shortHash),
+    })),
+    contributors: [...contributors.values()],
+    release: release && {
+      outcome: release.outcome,
+      url: release.releaseLink,
+      assets: release.uploadedAssets,
+    },
   }
 }
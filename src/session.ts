@@ -0,0 +1,43 @@
+import type { RequestOptions } from './http'
+import type { ChangelogOptions } from './types'
+import { $request } from './http'
+
+/**
+ * State of a single changelog run, shared by all provider calls of that run.
+ * Every `generate` call starts a new session, so that a long-lived process
+ * can release several projects without leaking lookups between them.
+ */
+export interface ReleaseSession {
+  config: ChangelogOptions
+  /**
+   * HTTP client used for the provider API calls
+   */
+  request: <T = any>(url: string, options?: RequestOptions) => Promise<T>
+  /**
+   * Lookups memoized for the run, e.g. GitLab project ids keyed by project path
+   */
+  cache: Map<string, Promise<unknown>>
+}
+
+export function createSession(config: ChangelogOptions, overrides: Partial<Omit<ReleaseSession, 'config'>> = {}): ReleaseSession {
+  return {
+    config,
+    request: $request,
+    cache: new Map(),
+    ...overrides,
+  }
+}
+
+/**
+ * Run `fn` once per session and `key`, concurrent callers share the pending result.
+ * Failures are not remembered, so that a later call can retry.
+ */
+export function memo<T>(session: ReleaseSession, key: string, fn: () => Promise<T>): Promise<T> {
+  let value = session.cache.get(key) as Promise<T> | undefined
+  if (!value) {
+    value = fn()
+    session.cache.set(key, value)
+    value.catch(() => session.cache.delete(key))
+  }
+  return value
+}
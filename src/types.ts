@@ -1,8 +1,112 @@
-import type { ChangelogConfig, GitCommit, RepoConfig } from 'changelogen'
+import type { ChangelogConfig, GitCommit, Reference, RepoConfig } from 'changelogen'
+import type { LocaleMessagesOverrides } from './locales'
+import type { ReleaseTemplates } from './markdown'
+import type { CustomRepoProvider } from './providers'
 
 export type ChangelogenOptions = ChangelogConfig
 
-export type RepoProviderType = 'github' | 'gitlab'
+export type RepoProviderType = 'github' | 'gitlab' | 'gitea' | 'bitbucket'
+
+/**
+ * - `default`: markdown with scopes, authors and references
+ * - `keep-a-changelog`: Added, Changed, Deprecated, Removed, Fixed and Security sections
+ * - `plain`: plain text, e.g. for emails
+ * - `compact`: one line per commit
+ */
+export type ReleaseStyle = 'default' | 'keep-a-changelog' | 'plain' | 'compact'
+
+/**
+ * Format of `output`, the Atom feed gets an entry per release
+ */
+export type OutputFormat = 'markdown' | 'html' | 'atom' | 'json'
+
+export type NotificationType = 'slack' | 'mattermost' | 'teams' | 'webhook'
+
+export interface NotificationTarget {
+  /**
+   * `webhook` posts the release notes as a JSON document
+   */
+  type: NotificationType
+  /**
+   * Incoming webhook URL
+   */
+  url: string
+  /**
+   * Longest release notes sent in a message, longer notes are cut and link to the release
+   * @default 3000 for Slack, 16000 for Mattermost, 20000 for Teams, unlimited for webhooks
+   */
+  maxLength?: number
+  /**
+   * Extra request headers, e.g. the authorization of a generic webhook
+   */
+  headers?: Record<string, string>
+  /**
+   * Channel and user name overrides of Slack and Mattermost webhooks
+   */
+  channel?: string
+  username?: string
+}
+
+export interface WorkspaceOptions {
+  /**
+   * Tag template of the packages, `{name}` is replaced by the package name
+   * @default `{name}@%s`
+   */
+  tag?: string
+  /**
+   * Names of the packages to release, every public package by default
+   */
+  packages?: string[]
+}
+
+/**
+ * Rules dropping commits from the release notes, globs are relative to the repository root
+ */
+export interface CommitFilters {
+  /**
+   * Drop commits whose subject matches any of these patterns
+   */
+  subjects?: (string | RegExp)[]
+  /**
+   * Drop commits of these authors, matched by name, email or the login of pull requests
+   */
+  authors?: string[]
+  /**
+   * Drop commits not touching any file matching these globs
+   */
+  include?: string[]
+  /**
+   * Drop commits only touching files matching these globs, e.g. `['docs', '.github']`
+   */
+  exclude?: string[]
+  /**
+   * Drop commits with any of these keywords or trailers in their message, ignoring case.
+   * Set to `[]` to keep marked commits.
+   * @default ['[skip changelog]', 'Changelog: skip']
+   */
+  skipKeywords?: string[]
+}
+
+export type GitLabAssetLinkType = 'other' | 'runbook' | 'image' | 'package'
+
+/**
+ * - `token`: personal, project or access token, sent as usual for the provider
+ * - `job-token`: GitLab CI job token (`CI_JOB_TOKEN`), sent as `JOB-TOKEN`
+ * - `github-app`: installation token of a GitHub App, see `githubApp`
+ */
+export type AuthType = 'token' | 'job-token' | 'github-app'
+
+export interface GitHubAppOptions {
+  appId: string | number
+  /**
+   * PEM encoded private key of the app
+   */
+  privateKey: string
+  /**
+   * Installation to authenticate as, looked up from `repo` by default
+   */
+  installationId?: number
+}
 
 export interface GitHubRepo {
   owner: string
@@ -14,8 +118,41 @@ export interface GitHubAuth {
   url: string
 }
 
+export interface CommitReference extends Reference {
+  /**
+   * Project of cross-project references, e.g. `group/project` for `group/project#12`
+   */
+  repo?: string
+}
+
 export interface Commit extends GitCommit {
+  references: CommitReference[]
   resolvedAuthors?: AuthorInfo[]
+  /**
+   * Pull request / merge request the entry was built from
+   */
+  pullRequest?: PullRequestInfo
+  /**
+   * Labels of the associated pull request / merge request
+   */
+  labels?: string[]
+}
+
+export interface PullRequestInfo {
+  /**
+   * Pull request number on GitHub, merge request iid on GitLab
+   */
+  number: number
+  title: string
+  body: string
+  url: string
+  labels: string[]
+  /**
+   * Login of the author
+   */
+  author?: string
+  authorName?: string
+  mergeCommit?: string
 }
 
 export interface ChangelogOptions extends Partial<ChangelogenOptions> {
@@ -45,6 +182,15 @@ export interface ChangelogOptions extends Partial<ChangelogenOptions> {
    * GitHub Token
    */
   token?: string
+  /**
+   * Kind of credentials, see `AuthType`
+   * @default `github-app` when `githubApp` is set, `token` otherwise
+   */
+  authType?: AuthType
+  /**
+   * Authenticate as a GitHub App installation instead of using `token`
+   */
+  githubApp?: GitHubAppOptions
   /**
    * Custom titles
    */
@@ -66,16 +212,95 @@ export interface ChangelogOptions extends Partial<ChangelogenOptions> {
    * @default true
    */
   emoji?: boolean
+  /**
+   * Format of the release notes written to `output`
+   * @default inferred from the extension of `output`, `markdown` otherwise
+   */
+  format?: OutputFormat
+  /**
+   * Built-in style of the release notes
+   * @default `default`
+   */
+  style?: ReleaseStyle
+  /**
+   * Override how the release notes are rendered, either functions replacing
+   * some of the default templates or the path of a module exporting them
+   */
+  releaseTemplates?: Partial<ReleaseTemplates> | string
+  /**
+   * Language of the generated text, `en`, `zh-CN`, `ja` or a locale of `messages`.
+   * Several locales generate bilingual notes, e.g. `['en', 'zh-CN']`
+   * @default `en`
+   */
+  locale?: string | string[]
+  /**
+   * Override the generated text of a locale, or add a locale
+   */
+  messages?: Record<string, LocaleMessagesOverrides>
+  /**
+   * Only include commits touching these directories, relative to the repository root
+   */
+  paths?: string[]
+  /**
+   * Packages of a pnpm or npm workspace, released separately by `releaseWorkspace`
+   */
+  workspace?: WorkspaceOptions
   /**
    * Github base url
-   * @default https://github.com
+   * @default inferred from the git remote, https://github.com otherwise
    */
   baseUrl?: string
   /**
    * Github base API url
-   * @default https://api.github.com
+   * @default inferred from `baseUrl`, https://api.github.com otherwise
    */
   baseUrlApi?: string
+  /**
+   * Prepend the release notes to a changelog file instead of releasing,
+   * `true` for `CHANGELOG.md`
+   */
+  changelog?: boolean | string
+  /**
+   * Commit the updated changelog file
+   */
+  changelogCommit?: boolean
+  /**
+   * Git remote to read the repository from, either its name or its URL
+   * @default `origin`, or the first remote if there is no `origin`
+   */
+  remote?: string
+  /**
+   * Providers of self-hosted instances, keyed by host name, e.g. `{ 'git.company.com': 'gitlab' }`
+   */
+  hosts?: Record<string, RepoProviderType | (string & {})>
+
+  /**
+   * Maximum number of concurrent provider API requests, e.g. when resolving authors
+   *
+   * @default 5
+   */
+  concurrency?: number
+
+  /**
+   * Cache resolved author logins on disk, disable with `--no-cache`
+   *
+   * @default true
+   */
+  cache?: boolean
+
+  /**
+   * Directory of the on-disk cache
+   *
+   * @default `node_modules/.cache/changelogits`
+   */
+  cacheDir?: string
+
+  /**
+   * Time in milliseconds before a cached author login is resolved again
+   *
+   * @default 604800000 (7 days)
+   */
+  cacheTtl?: number
 
   /**
    * Filter tags
@@ -97,6 +322,13 @@ export interface ChangelogOptions extends Partial<ChangelogenOptions> {
    */
   tag?: string
 
+  /**
+   * Create the tag `to` through the provider API when it does not exist there yet,
+   * at the commit of `to`, which must exist locally.
+   * `annotated` creates an annotated tag with the release notes as its message.
+   */
+  createTag?: boolean | 'annotated'
+
   /**
    * Files to upload as assets to the release
    * `--assets path1,path2` or `--assets path1 --assets path2`
@@ -104,11 +336,101 @@ export interface ChangelogOptions extends Partial<ChangelogenOptions> {
   assets?: string[] | string
 
   /**
-   * RepoProvider
+   * RepoProvider, use `gitea` for both Gitea and Forgejo instances.
+   * Can also be the name of a provider registered in `providers`.
+   *
+   * @default detected from the git remote, `github` otherwise
+   */
+  repoProvider?: RepoProviderType | (string & {})
+
+  /**
+   * Custom repository providers, keyed by the name to use in `repoProvider`
+   */
+  providers?: Record<string, CustomRepoProvider>
+
+  /**
+   * Build the release notes from commits, or from the titles, labels and authors
+   * of the pull requests / merge requests merged between `from` and `to`.
+   * Commits not associated with any pull request are still included.
    *
-   * @default `github`
+   * @default `commits`
+   */
+  source?: 'commits' | 'pull-requests'
+
+  /**
+   * Map pull request labels to commit types, e.g. `{ bug: 'fix', enhancement: 'feat' }`.
+   * Used when `source` is `pull-requests`, takes precedence over the type in the title.
+   */
+  labelTypes?: Record<string, string>
+
+  /**
+   * Categorise entries by the labels of their pull request / merge request.
+   * Commits are looked up through the provider API when any rule is set.
+   */
+  labels?: {
+    /**
+     * Place entries with the label in a section, e.g. `{ security: '🔒 Security' }`.
+     * Use `breaking` or a key of `types` to place them in that existing section.
+     * The first matching label wins.
+     */
+    sections?: Record<string, string>
+    /**
+     * Drop entries with any of these labels, e.g. `['skip-changelog']`
+     */
+    exclude?: string[]
+  }
+
+  /**
+   * Drop noisy commits, see `CommitFilters`
+   */
+  filters?: CommitFilters
+
+  /**
+   * Where Bitbucket release notes are stored, Bitbucket has no releases.
+   * `tag` re-creates the tag as an annotated tag with the notes as message,
+   * `downloads` uploads the notes (and assets) to the Downloads area (Cloud only).
+   *
+   * @default `tag`
+   */
+  bitbucketRelease?: 'tag' | 'downloads'
+
+  /**
+   * Allow `bitbucketRelease: 'tag'` to delete and re-create the existing tag.
+   * The original tag is restored when creating the annotated one fails.
+   */
+  bitbucketRewriteTag?: boolean
+
+  /**
+   * Where GitLab release assets are stored before being linked to the release.
+   * `package` uses the generic package registry, `uploads` the project uploads.
+   *
+   * @default `package`
+   */
+  gitlabAssetsTarget?: 'package' | 'uploads'
+
+  /**
+   * Package name used when storing assets in the GitLab generic package registry
+   *
+   * @default `release-assets`
+   */
+  gitlabPackageName?: string
+
+  /**
+   * Link type of GitLab release assets, inferred from the file extension by default
+   */
+  gitlabAssetLinkType?: GitLabAssetLinkType | ((fileName: string) => GitLabAssetLinkType)
+
+  /**
+   * Chat and webhook targets notified after a release is created
+   */
+  notifications?: NotificationTarget[]
+
+  /**
+   * Send `notifications`, disable with `--no-notify`
+   *
+   * @default true
    */
-  repoProvider?: RepoProviderType
+  notify?: boolean
 }
 
 export type ResolvedChangelogOptions = Required<ChangelogOptions>
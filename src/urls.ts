@@ -0,0 +1,84 @@
+import type { ChangelogOptions } from './types'
+import { getRepoWebUrl, getTagWebUrl, isBitbucketServer } from './bitbucket'
+
+export interface RepoUrls {
+  /**
+   * Link to a single commit
+   */
+  commit: (options: ChangelogOptions, hash: string) => string
+  /**
+   * Link to an issue, `id` is the bare number without prefix.
+   * `repo` is set for cross-project references like `group/project#12`.
+   */
+  issue: (options: ChangelogOptions, id: string, repo?: string) => string
+  /**
+   * Link to a pull request / merge request, `id` is the bare number without prefix.
+   * `repo` is set for cross-project references like `group/project!12`.
+   */
+  pullRequest: (options: ChangelogOptions, id: string, repo?: string) => string
+  /**
+   * Link to the changes between `options.from` and `options.to`
+   */
+  compare: (options: ChangelogOptions) => string
+  /**
+   * Link to create the release manually, prefilled with `content` where supported
+   */
+  newRelease: (options: ChangelogOptions, content: string) => string
+}
+
+export const githubUrls: RepoUrls = {
+  commit: (options, hash) => `${options.baseUrl}/${options.repo}/commit/${hash}`,
+  issue: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/issues/${id}`,
+  pullRequest: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/pull/${id}`,
+  compare: options => `${options.baseUrl}/${options.repo}/compare/${options.from}...${options.to}`,
+  newRelease: (options, content) => {
+    const encodedBody = encodeURIComponent(content)
+    const encodedTag = encodeURIComponent(String(options.to))
+    const encodedTitle = encodeURIComponent(String(options.name || options.to))
+    return `${options.baseUrl}/${options.releaseRepo}/releases/new?title=${encodedTitle}&body=${encodedBody}&tag=${encodedTag}&prerelease=${options.prerelease}`
+  },
+}
+
+export const gitlabUrls: RepoUrls = {
+  commit: (options, hash) => `${options.baseUrl}/${options.repo}/-/commit/${hash}`,
+  issue: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/-/issues/${id}`,
+  pullRequest: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/-/merge_requests/${id}`,
+  compare: options => `${options.baseUrl}/${options.repo}/-/compare/${options.from}...${options.to}`,
+  newRelease: (options, content) => {
+    const encodedBody = encodeURIComponent(content)
+    const encodedTag = encodeURIComponent(String(options.to))
+    const encodedTitle = encodeURIComponent(String(options.name || options.to))
+    const encodedPrerelease = encodeURIComponent(String(options.prerelease))
+    return `${options.baseUrl}/${options.releaseRepo}/-/releases/new?tag_name=${encodedTag}&release_title=${encodedTitle}&release_notes=${encodedBody}&pre_release=${encodedPrerelease}`
+  },
+}
+
+export const giteaUrls: RepoUrls = {
+  commit: (options, hash) => `${options.baseUrl}/${options.repo}/commit/${hash}`,
+  issue: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/issues/${id}`,
+  pullRequest: (options, id, repo = options.repo as string) => `${options.baseUrl}/${repo}/pulls/${id}`,
+  compare: options => `${options.baseUrl}/${options.repo}/compare/${options.from}...${options.to}`,
+  // Gitea/Forgejo only prefill the tag from the query string
+  newRelease: options => `${options.baseUrl}/${options.releaseRepo}/releases/new?tag=${encodeURIComponent(String(options.to))}`,
+}
+
+export const bitbucketUrls: RepoUrls = {
+  commit: (options, hash) => `${getRepoWebUrl(options, options.repo as string)}/commits/${hash}`,
+  // Data Center has no issue tracker, `#N` references point to pull requests there
+  issue: (options, id, repo = options.repo as string) => isBitbucketServer(options)
+    ? `${getRepoWebUrl(options, repo)}/pull-requests/${id}`
+    : `${getRepoWebUrl(options, repo)}/issues/${id}`,
+  pullRequest: (options, id, repo = options.repo as string) => `${getRepoWebUrl(options, repo)}/pull-requests/${id}`,
+  compare: (options) => {
+    const repoUrl = getRepoWebUrl(options, options.repo as string)
+    if (isBitbucketServer(options))
+      return `${repoUrl}/compare/commits?sourceBranch=${encodeURIComponent(String(options.to))}&targetBranch=${encodeURIComponent(String(options.from))}`
+    return `${repoUrl}/branches/compare/${encodeURIComponent(String(options.to))}%0D${encodeURIComponent(String(options.from))}#diff`
+  },
+  // There is no release page, point to where the notes would end up
+  newRelease: (options) => {
+    if (!isBitbucketServer(options) && options.bitbucketRelease === 'downloads')
+      return `${getRepoWebUrl(options, options.releaseRepo as string)}/downloads/`
+    return getTagWebUrl(options, options.releaseRepo as string, String(options.to))
+  },
+}
@@ -0,0 +1,161 @@
+import type { ReleaseResult } from './run'
+import type { ChangelogOptions } from './types'
+import { existsSync } from 'node:fs'
+import fs from 'node:fs/promises'
+import { dirname, join, posix } from 'node:path'
+import process from 'node:process'
+import { glob } from 'tinyglobby'
+import { getChangelogPath } from './changelog'
+import { detectRepoProvider, resolveConfig } from './config'
+import { getFirstGitCommit, getGitTags, getRefTags, getSafeTagTemplate, getTagVersion, selectLastMatchingTag } from './git'
+import { performRelease, prepareRelease, ReleaseExecutionError } from './run'
+
+export interface WorkspacePackage {
+  name: string
+  version: string
+  /**
+   * Directory of the package relative to the workspace root, with `/` separators
+   */
+  dir: string
+}
+
+export interface WorkspaceEntry {
+  package: WorkspacePackage
+  /**
+   * Tag template of the package
+   */
+  tag: string
+  from: string
+  to: string
+  /**
+   * `untagged` when the package has no tag at `to`, `unchanged` when no commit touches it
+   */
+  skipped?: 'untagged' | 'unchanged'
+  result?: ReleaseResult
+  error?: Error
+}
+
+const DEFAULT_PACKAGE_TAG = '{name}@%s'
+
+// the `packages` list of `pnpm-workspace.yaml`, the other settings are not needed
+function parsePnpmWorkspace(content: string) {
+  const patterns: string[] = []
+  let inPackages = false
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line))
+      inPackages = /^packages\s*:/.test(line)
+    else if (inPackages && /^\s+-/.test(line))
+      patterns.push(line.replace(/^\s+-\s*/, '').replace(/\s+#.*$/, '').replace(/^(['"])(.*)\1$/, '$2'))
+  }
+  return patterns.filter(Boolean)
+}
+
+async function getWorkspacePatterns(cwd: string) {
+  const pnpmWorkspace = join(cwd, 'pnpm-workspace.yaml')
+  if (existsSync(pnpmWorkspace))
+    return parsePnpmWorkspace(await fs.readFile(pnpmWorkspace, 'utf-8'))
+
+  const pkg = JSON.parse(await fs.readFile(join(cwd, 'package.json'), 'utf-8').catch(() => '{}'))
+  const workspaces: string[] | undefined = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages
+  if (!workspaces?.length)
+    throw new Error('Can not find the workspace packages, expected a pnpm-workspace.yaml or `workspaces` in package.json')
+  return workspaces
+}
+
+/**
+ * Public packages of the pnpm or npm workspace at `cwd`, sorted by directory
+ */
+export async function getWorkspacePackages(cwd = process.cwd()): Promise<WorkspacePackage[]> {
+  const patterns = await getWorkspacePatterns(cwd)
+  const files = await glob(patterns.filter(p => !p.startsWith('!')).map(p => posix.join(p, 'package.json')), {
+    cwd,
+    ignore: ['**/node_modules/**', ...patterns.filter(p => p.startsWith('!')).map(p => p.slice(1))],
+  })
+
+  const packages: WorkspacePackage[] = []
+  for (const file of files.sort()) {
+    const pkg = JSON.parse(await fs.readFile(join(cwd, file), 'utf-8'))
+    if (pkg.name && !pkg.private)
+      packages.push({ name: pkg.name, version: pkg.version || '0.0.0', dir: dirname(file) })
+  }
+  return packages
+}
+
+/**
+ * Tag template of a package, e.g. `@scope/pkg@%s`
+ */
+export function getPackageTagTemplate(pkg: Pick<WorkspacePackage, 'name'>, template = DEFAULT_PACKAGE_TAG) {
+  return getSafeTagTemplate(template.replace(/\{name\}/g, pkg.name))
+}
+
+/**
+ * Tags of a package among `tags`, root tags such as `v1.2.0` are not tags of any package
+ */
+export function getPackageTags(template: string, tags: string[]) {
+  return tags.filter(tag => getTagVersion(template, tag))
+}
+
+/**
+ * Create the release of every package tagged at `to`, compared with the previous tag
+ * of the package and limited to the commits touching its directory.
+ * `changelog` and `output` are relative to the package directory.
+ * A failing package does not stop the others, except for a missing token.
+ */
+export async function releaseWorkspace(options: ChangelogOptions, onEntry?: (entry: WorkspaceEntry) => void): Promise<WorkspaceEntry[]> {
+  // detected once, instead of probing the remote again for every package
+  const { repoProvider } = await detectRepoProvider(options)
+  const { from: _from, to = 'HEAD', ...releaseOptions } = options
+  // several packages may be tagged at once, the current tags are not a single `to`
+  const config = await resolveConfig({ ...options, repoProvider, to })
+  const names = config.workspace?.packages
+  const packages = (await getWorkspacePackages())
+    .filter(pkg => !names?.length || names.includes(pkg.name))
+
+  const tagsAtRef = await getRefTags(to)
+  // newest first, like `selectLastMatchingTag` expects them
+  const tags = (await getGitTags()).filter(config.tagFilter)
+  const firstCommit = await getFirstGitCommit()
+  const entries: WorkspaceEntry[] = []
+
+  for (const pkg of packages) {
+    const tag = getPackageTagTemplate(pkg, config.workspace?.tag)
+    const target = getPackageTags(tag, tagsAtRef)[0]
+    const entry: WorkspaceEntry = {
+      package: pkg,
+      tag,
+      from: (target && selectLastMatchingTag(target, getPackageTags(tag, tags), tag)) || firstCommit,
+      to: target || to,
+    }
+
+    if (!target) {
+      entry.skipped = 'untagged'
+    }
+    else {
+      try {
+        const context = await prepareRelease({
+          ...releaseOptions,
+          repoProvider,
+          from: entry.from,
+          to: entry.to,
+          tag,
+          paths: [pkg.dir],
+          changelog: config.changelog ? join(pkg.dir, getChangelogPath(config)) : undefined,
+          output: typeof config.output === 'string' ? join(pkg.dir, config.output) : undefined,
+        })
+        if (context.commits.length)
+          entry.result = await performRelease(context)
+        else
+          entry.skipped = 'unchanged'
+      }
+      catch (error) {
+        if (error instanceof ReleaseExecutionError && error.code === 'MISSING_TOKEN')
+          throw error
+        entry.error = error as Error
+      }
+    }
+    entries.push(entry)
+    onEntry?.(entry)
+  }
+
+  return entries
+}
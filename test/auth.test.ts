@@ -0,0 +1,39 @@
+import { Buffer } from 'node:buffer'
+import { createVerify, generateKeyPairSync } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { createAppJwt, getGitHubAppToken } from '../src/auth'
+import { createSession } from '../src/session'
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+})
+
+describe('github app', () => {
+  it('signs the app JWT with RS256', () => {
+    const jwt = createAppJwt(42, privateKey, 1_000_000)
+    const [header, payload, signature] = jwt.split('.')
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual({ iat: 999_940, exp: 1_000_540, iss: '42' })
+    const valid = createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, Buffer.from(signature, 'base64url'))
+    expect(valid).toBe(true)
+  })
+
+  it('exchanges the JWT for an installation token once per session', async () => {
+    const calls: string[] = []
+    const options = { baseUrlApi: 'https://api.github.com', repo: 'o/r', githubApp: { appId: 42, privateKey } }
+    const session = createSession(options, {
+      request: async (url: string, init?: any) => {
+        calls.push(`${init?.method || 'GET'} ${url}`)
+        expect(init.headers.authorization).toMatch(/^Bearer /)
+        return (url.endsWith('/installation') ? { id: 7 } : { token: 'ghs_installation' }) as any
+      },
+    })
+    const tokens = await Promise.all([getGitHubAppToken(options, session), getGitHubAppToken(options, session)])
+    expect(tokens).toEqual(['ghs_installation', 'ghs_installation'])
+    expect(calls).toEqual([
+      'GET https://api.github.com/repos/o/r/installation',
+      'POST https://api.github.com/app/installations/7/access_tokens',
+    ])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { buildBackfillRanges } from '../src/backfill'
+import { selectLastMatchingTag } from '../src/git'
+
+// newest first, as returned by `getGitTags`
+const tags = ['v2.0.0', 'v2.0.0-beta.2', 'v2.0.0-beta.1', 'v1.1.0', 'v1.0.0']
+
+function previous(tag: string) {
+  return selectLastMatchingTag(tag, tags.slice(tags.indexOf(tag) + 1), 'v%s')
+}
+
+describe('historical tags', () => {
+  it('compares stable releases with the previous stable release', () => {
+    expect(previous('v2.0.0')).toBe('v1.1.0')
+    expect(previous('v1.1.0')).toBe('v1.0.0')
+  })
+
+  it('compares prereleases with the previous tag', () => {
+    expect(previous('v2.0.0-beta.2')).toBe('v2.0.0-beta.1')
+    expect(previous('v2.0.0-beta.1')).toBe('v1.1.0')
+  })
+
+  it('has nothing to compare the first tag with', () => {
+    expect(previous('v1.0.0')).toBeUndefined()
+  })
+})
+
+describe('backfill ranges', () => {
+  // newest first, with tags of another template mixed in
+  const allTags = ['v2.0.0', '1.5.0', 'v2.0.0-beta.1', 'docs-v3', 'v1.1.0', 'pkg@1.0.0', 'v1.0.0']
+
+  it('releases the tags of the template in ascending order', () => {
+    expect(buildBackfillRanges(allTags, 'v%s', 'abc1234')).toEqual([
+      { from: 'abc1234', to: 'v1.0.0' },
+      { from: 'v1.0.0', to: 'v1.1.0' },
+      { from: 'v1.1.0', to: 'v2.0.0-beta.1' },
+      { from: 'v1.1.0', to: 'v2.0.0' },
+    ])
+  })
+
+  it('matches the template literally', () => {
+    expect(buildBackfillRanges(allTags, 'pkg@%s', 'abc1234')).toEqual([{ from: 'abc1234', to: 'pkg@1.0.0' }])
+    expect(buildBackfillRanges(['pkgx1.0.0'], 'pkg.%s', 'abc1234')).toEqual([])
+  })
+
+  it('skips tags below `since`', () => {
+    expect(buildBackfillRanges(allTags, 'v%s', 'abc1234', 'v1.1.0').map(r => r.to)).toEqual(['v1.1.0', 'v2.0.0-beta.1', 'v2.0.0'])
+    expect(buildBackfillRanges(allTags, 'v%s', 'abc1234', '2.0.0').map(r => r.to)).toEqual(['v2.0.0'])
+    expect(() => buildBackfillRanges(allTags, 'v%s', 'abc1234', 'latest')).toThrow('Invalid `since` tag latest')
+  })
+})
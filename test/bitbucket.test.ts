@@ -0,0 +1,60 @@
+import type { ChangelogOptions } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { sendRelease } from '../src/bitbucket'
+import { createSession } from '../src/session'
+
+const options: ChangelogOptions = {
+  baseUrl: 'https://bitbucket.org',
+  baseUrlApi: 'https://api.bitbucket.org/2.0',
+  repo: 'workspace/repo',
+  releaseRepo: 'workspace/repo',
+  token: 't',
+  to: 'v1.0.0',
+}
+
+const tagUrl = 'https://api.bitbucket.org/2.0/repositories/workspace/repo/refs/tags'
+
+function createFakeSession(failCreate = 0) {
+  const requests: { method: string, url: string, body?: any }[] = []
+  const session = createSession(options, {
+    request: async (url: string, init?: any) => {
+      const method = init?.method || 'GET'
+      requests.push({ method, url, body: init?.body && JSON.parse(init.body) })
+      if (method === 'GET')
+        return { name: 'v1.0.0', target: { hash: 'abc1234' }, message: null } as any
+      if (method === 'POST' && failCreate-- > 0)
+        throw new Error('403 Forbidden')
+      return {} as any
+    },
+  })
+  return { requests, session }
+}
+
+describe('bitbucket tag notes', () => {
+  it('does not rewrite tags unless allowed', async () => {
+    const { requests, session } = createFakeSession()
+    await expect(sendRelease(options, 'Notes', session)).rejects.toThrow('bitbucketRewriteTag')
+    expect(requests.map(r => r.method)).toEqual(['GET'])
+  })
+
+  it('re-creates the tag with the notes as message', async () => {
+    const { requests, session } = createFakeSession()
+    expect(await sendRelease({ ...options, bitbucketRewriteTag: true }, 'Notes', session))
+      .toBe('https://bitbucket.org/workspace/repo/src/v1.0.0')
+    expect(requests.slice(1)).toEqual([
+      { method: 'DELETE', url: `${tagUrl}/v1.0.0`, body: undefined },
+      { method: 'POST', url: tagUrl, body: { name: 'v1.0.0', target: { hash: 'abc1234' }, message: 'Notes' } },
+    ])
+  })
+
+  it('restores the original tag when creating the annotated one fails', async () => {
+    const { requests, session } = createFakeSession(1)
+    await expect(sendRelease({ ...options, bitbucketRewriteTag: true }, 'Notes', session)).rejects.toThrow('403 Forbidden')
+    expect(requests.at(-1)).toEqual({ method: 'POST', url: tagUrl, body: { name: 'v1.0.0', target: { hash: 'abc1234' } } })
+  })
+
+  it('tells how to push the tag again when it can not be restored', async () => {
+    const { session } = createFakeSession(2)
+    await expect(sendRelease({ ...options, bitbucketRewriteTag: true }, 'Notes', session)).rejects.toThrow('git push origin v1.0.0')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { bump, getNextVersion, getReleaseType } from '../src'
+
+const feat = { type: 'feat', isBreaking: false }
+const fix = { type: 'fix', isBreaking: false }
+const breaking = { type: 'fix', isBreaking: true }
+
+describe('release type', () => {
+  it('follows the commits', () => {
+    expect(getReleaseType('1.2.3', [fix, breaking, feat])).toBe('major')
+    expect(getReleaseType('1.2.3', [fix, feat])).toBe('minor')
+    expect(getReleaseType('1.2.3', [fix, { type: 'docs', isBreaking: false }])).toBe('patch')
+  })
+
+  it('does not leave 0.x on its own', () => {
+    expect(getReleaseType('0.4.1', [breaking])).toBe('minor')
+    expect(getReleaseType('0.4.1', [feat])).toBe('patch')
+  })
+})
+
+describe('next version', () => {
+  it('increments stable versions', () => {
+    expect(getNextVersion('1.2.3', 'major').version).toBe('2.0.0')
+    expect(getNextVersion('1.2.3', 'minor').version).toBe('1.3.0')
+    expect(getNextVersion('1.2.3', 'patch').version).toBe('1.2.4')
+  })
+
+  it('releases prereleases', () => {
+    expect(getNextVersion('1.3.0-beta.2', 'minor').version).toBe('1.3.0')
+    expect(getNextVersion('1.3.0-beta.2', 'major').version).toBe('2.0.0')
+  })
+
+  it('starts a prerelease channel', () => {
+    expect(getNextVersion('1.2.3', 'minor', 'beta')).toEqual({ version: '1.3.0-beta.0', releaseType: 'preminor' })
+    expect(getNextVersion('1.2.3', 'patch', 'rc').version).toBe('1.2.4-rc.0')
+  })
+
+  it('keeps counting up while the prerelease covers the changes', () => {
+    expect(getNextVersion('1.3.0-beta.0', 'minor', 'beta')).toEqual({ version: '1.3.0-beta.1', releaseType: 'prerelease' })
+    expect(getNextVersion('1.3.0-beta.0', 'patch', 'beta').version).toBe('1.3.0-beta.1')
+    expect(getNextVersion('2.0.0-beta.3', 'major', 'beta').version).toBe('2.0.0-beta.4')
+    expect(getNextVersion('1.3.0-alpha.3', 'minor', 'beta').version).toBe('1.3.0-beta.0')
+  })
+
+  it('moves to a larger prerelease for larger changes', () => {
+    expect(getNextVersion('1.3.0-beta.1', 'major', 'beta').version).toBe('2.0.0-beta.0')
+    expect(getNextVersion('1.2.4-beta.0', 'minor', 'beta').version).toBe('1.3.0-beta.0')
+  })
+})
+
+describe('bump', () => {
+  it('requires write to push or release', async () => {
+    await expect(bump({ push: true })).rejects.toThrow('`push` requires `write`')
+    await expect(bump({ release: true })).rejects.toThrow('`release` requires `write`')
+  })
+})
@@ -0,0 +1,53 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { loadAuthorCache, resolveCachedAuthor } from '../src/cache'
+
+let cacheDir: string
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'changelogits-cache-'))
+})
+
+afterEach(async () => {
+  await fs.rm(cacheDir, { recursive: true, force: true })
+})
+
+describe('author cache', () => {
+  it('persists logins per provider host', async () => {
+    const options = { cacheDir, repoProvider: 'gitlab', baseUrlApi: 'https://gitlab.example.com/api/v4' }
+    const cache = await loadAuthorCache(options)
+    const info = { email: 'jane@example.com', name: 'Jane', commits: [] }
+    await resolveCachedAuthor(cache, info, async () => ({ ...info, login: 'jane' }))
+    await cache.save()
+
+    const reloaded = await loadAuthorCache(options)
+    expect(reloaded.get('jane@example.com')?.login).toBe('jane')
+
+    const otherHost = await loadAuthorCache({ ...options, baseUrlApi: 'https://gitlab.com/api/v4' })
+    expect(otherHost.get('jane@example.com')).toBeUndefined()
+  })
+
+  it('skips the resolver on cache hits and ignores expired entries', async () => {
+    const cache = await loadAuthorCache({ cacheDir })
+    cache.set('jane@example.com', { login: 'jane', name: 'Jane' })
+
+    const info = await resolveCachedAuthor(cache, { email: 'jane@example.com', name: 'Jane', commits: [] }, async () => {
+      throw new Error('should not resolve')
+    })
+    expect(info.login).toBe('jane')
+
+    const expired = await loadAuthorCache({ cacheDir, cacheTtl: -1 })
+    expired.set('jane@example.com', { login: 'jane', name: 'Jane' })
+    expect(expired.get('jane@example.com')).toBeUndefined()
+  })
+
+  it('is disabled with `cache: false`', async () => {
+    const cache = await loadAuthorCache({ cacheDir, cache: false })
+    cache.set('jane@example.com', { login: 'jane', name: 'Jane' })
+    await cache.save()
+    expect(cache.get('jane@example.com')).toBeUndefined()
+    expect(await fs.readdir(cacheDir)).toEqual([])
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { CHANGELOG_END, CHANGELOG_START, updateChangelog } from '../src/changelog'
+
+describe('updateChangelog', () => {
+  it('creates a changelog', () => {
+    expect(updateChangelog(undefined, 'v1.0.0', '### Features\n\n- A', '2026-10-19')).toBe([
+      '# Changelog',
+      '',
+      CHANGELOG_START,
+      '',
+      '## v1.0.0 (2026-10-19)',
+      '',
+      '### Features',
+      '',
+      '- A',
+      '',
+      CHANGELOG_END,
+      '',
+    ].join('\n'))
+  })
+
+  it('keeps hand-written content outside the markers', () => {
+    const handWritten = '# Changelog\n\nAll notable changes.\n\n## 0.9.0\n\n- Legacy\n'
+    const updated = updateChangelog(handWritten, 'v1.0.0', '- A', '2026-10-19')
+    expect(updated.startsWith(`# Changelog\n\n${CHANGELOG_START}\n\n## v1.0.0 (2026-10-19)\n\n- A\n\n${CHANGELOG_END}\n\n`)).toBe(true)
+    expect(updated.endsWith('All notable changes.\n\n## 0.9.0\n\n- Legacy\n')).toBe(true)
+  })
+
+  it('prepends new versions and replaces the same version', () => {
+    let content = updateChangelog(undefined, 'v1.0.0', '- A', '2026-10-18')
+    content = updateChangelog(content, 'v1.1.0', '- B', '2026-10-19')
+    const rerun = updateChangelog(content, 'v1.1.0', '- B\n- C', '2026-10-20')
+
+    expect(updateChangelog(content, 'v1.1.0', '- B', '2026-10-19')).toBe(content)
+    expect(rerun.match(/^## v1\.1\.0/gm)).toHaveLength(1)
+    expect(rerun.indexOf('## v1.1.0 (2026-10-20)\n\n- B\n- C')).toBeLessThan(rerun.indexOf('## v1.0.0 (2026-10-18)'))
+    // a version that is a prefix of another one is not replaced
+    expect(updateChangelog(rerun, 'v1.1', '- D', '2026-10-21')).toContain('## v1.1.0 (2026-10-20)')
+  })
+
+  it('rejects changelogs with a single marker', () => {
+    const section = '## v1.0.0 (2026-10-18)\n\n- A\n'
+    expect(() => updateChangelog(`# Changelog\n\n${CHANGELOG_START}\n\n${section}`, 'v1.1.0', '- B', '2026-10-19'))
+      .toThrow(`unmatched ${CHANGELOG_START} marker`)
+    expect(() => updateChangelog(`# Changelog\n\n${section}\n${CHANGELOG_END}\n`, 'v1.1.0', '- B', '2026-10-19'))
+      .toThrow(`unmatched ${CHANGELOG_END} marker`)
+    expect(() => updateChangelog(`# Changelog\n\n${CHANGELOG_END}\n\n${section}\n${CHANGELOG_START}\n`, 'v1.1.0', '- B', '2026-10-19'))
+      .toThrow(`${CHANGELOG_END} before ${CHANGELOG_START}`)
+  })
+})
@@ -0,0 +1,84 @@
+import type { RawGitCommit } from 'changelogen'
+import type { CommitFilters, ResolvedChangelogOptions } from '../src'
+import { describe, expect, it } from 'vitest'
+import { filterCommits, globToRegExp, parseCommits } from '../src'
+
+function createCommit(message: string, shortHash: string, files: string[] = [], body = '', name = 'Jane Doe'): RawGitCommit {
+  return {
+    message,
+    body: `${body}\n${files.map(file => `M\t${file}`).join('\n')}\n`,
+    shortHash,
+    author: { name, email: `${name.split(' ')[0].toLowerCase()}@example.com` },
+  }
+}
+
+const config = {
+  scopeMap: {},
+  types: { feat: { title: 'Features' }, fix: { title: 'Bug Fixes' } },
+} as unknown as ResolvedChangelogOptions
+
+function filter(commits: RawGitCommit[], filters?: CommitFilters) {
+  const { commits: kept, dropped } = filterCommits(parseCommits(commits, config), filters)
+  return { kept: kept.map(c => c.shortHash), dropped: dropped.map(c => `${c.hash}: ${c.reason}`) }
+}
+
+describe('globs', () => {
+  it('matches files and the content of directories', () => {
+    expect(globToRegExp('docs').test('docs/guide/index.md')).toBe(true)
+    expect(globToRegExp('docs').test('docsite/index.md')).toBe(false)
+    expect(globToRegExp('*.md').test('README.md')).toBe(true)
+    expect(globToRegExp('*.md').test('docs/README.md')).toBe(false)
+    expect(globToRegExp('**/*.md').test('docs/README.md')).toBe(true)
+    expect(globToRegExp('**/*.md').test('README.md')).toBe(true)
+    expect(globToRegExp('packages/*/test').test('packages/core/test/a.ts')).toBe(true)
+  })
+})
+
+describe('commit filters', () => {
+  it('skips commits marked in the subject or a trailer by default', () => {
+    expect(filter([
+      createCommit('fix: typo [skip changelog]', 'aaaaaaa'),
+      createCommit('fix: internal', 'bbbbbbb', [], 'Details\n\nchangelog: SKIP'),
+      createCommit('fix: visible', 'ccccccc'),
+    ])).toEqual({
+      kept: ['ccccccc'],
+      dropped: ['aaaaaaa: marked with "[skip changelog]"', 'bbbbbbb: marked with "Changelog: skip"'],
+    })
+  })
+
+  it('keeps marked commits when skip keywords are disabled', () => {
+    expect(filter([
+      createCommit('fix: typo [skip changelog]', 'aaaaaaa'),
+      createCommit('fix: internal', 'bbbbbbb', [], 'Details\n\nChangelog: skip'),
+    ], { skipKeywords: [] })).toEqual({
+      kept: ['aaaaaaa', 'bbbbbbb'],
+      dropped: [],
+    })
+  })
+
+  it('drops commits by subject and author', () => {
+    expect(filter([
+      createCommit('fix(deps): update dependency vite', 'aaaaaaa'),
+      createCommit('fix: bump lockfile', 'bbbbbbb', [], '', 'renovate[bot]'),
+      createCommit('feat: new api', 'ccccccc'),
+    ], { subjects: [/^fix\(deps\)/, 'wip'], authors: ['Renovate[bot]'] })).toEqual({
+      kept: ['ccccccc'],
+      dropped: ['aaaaaaa: subject matches /^fix\\(deps\\)/', 'bbbbbbb: authored by Renovate[bot]'],
+    })
+  })
+
+  it('drops commits by the files they touch', () => {
+    expect(filter([
+      createCommit('fix: wording', 'aaaaaaa', ['docs/guide.md', 'README.md']),
+      createCommit('fix: api and docs', 'bbbbbbb', ['src/api.ts', 'docs/api.md']),
+      createCommit('fix: tooling', 'ccccccc', ['scripts/build.ts']),
+    ], { include: ['src', 'docs'], exclude: ['docs', '*.md'] })).toEqual({
+      kept: ['bbbbbbb'],
+      dropped: ['aaaaaaa: only touches docs, *.md', 'ccccccc: touches no file of src, docs'],
+    })
+  })
+
+  it('keeps commits without known files', () => {
+    expect(filter([createCommit('feat: from a pull request', 'aaaaaaa')], { include: ['src'] }).kept).toEqual(['aaaaaaa'])
+  })
+})
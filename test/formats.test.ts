@@ -0,0 +1,116 @@
+import type { RawGitCommit } from 'changelogen'
+import type { ResolvedChangelogOptions } from '../src'
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { buildReleaseNotes, getOutputFormat, parseCommits, RELEASE_NOTES_SCHEMA_VERSION, renderAtomEntry, renderHtml, renderOutput, updateFeed } from '../src'
+
+const schema = JSON.parse(readFileSync(new URL('../schema/release-notes.schema.json', import.meta.url), 'utf-8'))
+
+function createCommit(message: string, shortHash: string): RawGitCommit {
+  return {
+    message,
+    body: '',
+    shortHash,
+    author: { name: 'Jane Doe', email: 'jane@example.com' },
+  }
+}
+
+const options = {
+  scopeMap: {},
+  types: {
+    feat: { title: '🚀 Features' },
+    fix: { title: '🐞 Bug Fixes' },
+  },
+  titles: { breakingChanges: '🚨 Breaking Changes' },
+  capitalize: true,
+  group: true,
+  emoji: false,
+  from: 'v1.0.0',
+  to: 'v1.1.0',
+  repoProvider: 'github',
+  baseUrl: 'https://github.com',
+  repo: 'owner/repo',
+} as unknown as ResolvedChangelogOptions
+
+const notes = buildReleaseNotes(parseCommits([
+  createCommit('feat: support <details> (#5)', 'aaaaaaa'),
+  createCommit('fix: closes #12', 'bbbbbbb'),
+], options), options)
+
+const feed = { id: 'urn:changelogits:owner/repo', title: 'owner/repo releases', link: 'https://github.com/owner/repo', updated: '2026-10-19T00:00:00Z' }
+
+describe('getOutputFormat', () => {
+  it('infers the format from the extension of the output', () => {
+    expect(getOutputFormat({ output: 'notes.html' } as ResolvedChangelogOptions)).toBe('html')
+    expect(getOutputFormat({ output: 'feed.atom' } as ResolvedChangelogOptions)).toBe('atom')
+    expect(getOutputFormat({ output: 'notes.JSON' } as ResolvedChangelogOptions)).toBe('json')
+    expect(getOutputFormat({ output: 'notes.md' } as ResolvedChangelogOptions)).toBe('markdown')
+    expect(getOutputFormat({ output: 'notes.html', format: 'json' } as ResolvedChangelogOptions)).toBe('json')
+    expect(() => getOutputFormat({ format: 'pdf' } as any)).toThrow('Unknown format: pdf')
+  })
+})
+
+describe('outputs', () => {
+  it('renders escaped html', () => {
+    expect(renderHtml(notes, options)).toBe([
+      '<h3>Features</h3>',
+      '<ul>',
+      '<li>Support &lt;details&gt; &mdash; in <a href="https://github.com/owner/repo/pull/5">#5</a> <a href="https://github.com/owner/repo/commit/aaaaaaa"><code>aaaaaaa</code></a></li>',
+      '</ul>',
+      '<h3>Bug Fixes</h3>',
+      '<ul>',
+      '<li>Closes #12 &mdash; in <a href="https://github.com/owner/repo/issues/12">#12</a> <a href="https://github.com/owner/repo/commit/bbbbbbb"><code>bbbbbbb</code></a></li>',
+      '</ul>',
+      '<p><a href="https://github.com/owner/repo/compare/v1.0.0...v1.1.0">View changes</a></p>',
+    ].join('\n'))
+  })
+
+  it('renders structured json', () => {
+    const json = JSON.parse(renderOutput('json', notes, '- md', options))
+    expect(json.schemaVersion).toBe(RELEASE_NOTES_SCHEMA_VERSION)
+    expect(json.md).toBe('- md')
+    expect(json.sections.map((s: any) => s.title)).toEqual(['🚀 Features', '🐞 Bug Fixes'])
+    expect(json.sections[0].entries[0]).toEqual({
+      type: 'feat',
+      scope: '',
+      description: 'Support <details>',
+      isBreaking: false,
+      hash: 'aaaaaaa',
+      references: [{ type: 'pull-request', value: '#5', url: 'https://github.com/owner/repo/pull/5' }],
+      authors: [],
+    })
+  })
+
+  it('keeps the json output in sync with the published schema', () => {
+    const json = JSON.parse(renderOutput('json', notes, '- md', options))
+    expect(schema.properties.schemaVersion.const).toBe(RELEASE_NOTES_SCHEMA_VERSION)
+    expect(Object.keys(json).sort()).toEqual(Object.keys(schema.properties).sort())
+    expect(Object.keys(json.sections[0]).sort()).toEqual(Object.keys(schema.$defs.section.properties).sort())
+    expect(Object.keys(json.sections[0].entries[0]).sort()).toEqual(Object.keys(schema.$defs.entry.properties).sort())
+  })
+})
+
+describe('updateFeed', () => {
+  it('creates a feed and adds new entries first', () => {
+    const created = updateFeed(undefined, renderAtomEntry(notes, options, '2026-10-18T00:00:00Z'), feed)
+    expect(created).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(created).toContain('<content type="html">&lt;h3&gt;Features&lt;/h3&gt;')
+
+    const next = { ...notes, to: 'v1.2.0' }
+    const updated = updateFeed(created, renderAtomEntry(next, options, '2026-10-19T00:00:00Z'), feed)
+    expect(updated.match(/<id>[^<]*<\/id>/g)).toEqual([
+      '<id>urn:changelogits:owner/repo</id>',
+      '<id>urn:changelogits:owner/repo:v1.2.0</id>',
+      '<id>urn:changelogits:owner/repo:v1.1.0</id>',
+    ])
+    expect(updated.match(/<updated>[^<]*<\/updated>/)![0]).toBe('<updated>2026-10-19T00:00:00Z</updated>')
+  })
+
+  it('replaces the entry of the same release', () => {
+    let content = updateFeed(undefined, renderAtomEntry(notes, options, '2026-10-18T00:00:00Z'), feed)
+    content = updateFeed(content, renderAtomEntry(notes, { ...options, name: 'Renamed' }, '2026-10-18T00:00:00Z'), feed)
+    expect(content.match(/<entry>/g)).toHaveLength(1)
+    expect(content).toContain('<title>Renamed</title>')
+    expect(content.endsWith('</entry>\n</feed>\n')).toBe(true)
+  })
+})
@@ -46,16 +46,16 @@ it('parse', async () => {
   expect(md.replace(/&nbsp;/g, ' ').replace(/ +/g, ' ')).toMatchInlineSnapshot(`
     "### Breaking Changes
 
-    - **cli**: Rename \`groupByScope\` to \`group\` - by **Enzo Innocenzi** in https://github.com/duowb/changelogitlab/issues/22 [<samp>(89282)</samp>](https://github.com/duowb/changelogitlab/commit/8928229)
+    - **cli**: Rename \`groupByScope\` to \`group\` - by **Enzo Innocenzi** in [#22](https://github.com/duowb/changelogitlab/pull/22) [<samp>(89282)</samp>](https://github.com/duowb/changelogitlab/commit/8928229)
 
     ### Features
 
     - Inline contributors - by **Anthony Fu** [<samp>(e4044)</samp>](https://github.com/duowb/changelogitlab/commit/e404493)
     - Throw on shallow repo - by **Anthony Fu** [<samp>(f1c1f)</samp>](https://github.com/duowb/changelogitlab/commit/f1c1fad)
-    - Improve how references are displayed - by **Enzo Innocenzi** in https://github.com/duowb/changelogitlab/issues/19 [<samp>(cdf8f)</samp>](https://github.com/duowb/changelogitlab/commit/cdf8fe5)
-    - Support \`--no-emoji\` - by **Enzo Innocenzi** in https://github.com/duowb/changelogitlab/issues/20 [<samp>(e94ba)</samp>](https://github.com/duowb/changelogitlab/commit/e94ba4a)
+    - Improve how references are displayed - by **Enzo Innocenzi** in [#19](https://github.com/duowb/changelogitlab/pull/19) [<samp>(cdf8f)</samp>](https://github.com/duowb/changelogitlab/commit/cdf8fe5)
+    - Support \`--no-emoji\` - by **Enzo Innocenzi** in [#20](https://github.com/duowb/changelogitlab/pull/20) [<samp>(e94ba)</samp>](https://github.com/duowb/changelogitlab/commit/e94ba4a)
     - **contributors**:
-     - Improve author list - by **Enzo Innocenzi** in https://github.com/duowb/changelogitlab/issues/18 [<samp>(8d8d9)</samp>](https://github.com/duowb/changelogitlab/commit/8d8d914)
+     - Improve author list - by **Enzo Innocenzi** in [#18](https://github.com/duowb/changelogitlab/pull/18) [<samp>(8d8d9)</samp>](https://github.com/duowb/changelogitlab/commit/8d8d914)
     - **style**:
      - Group scopes only when one of the scope have multiple commits - by **Anthony Fu** [<samp>(312f7)</samp>](https://github.com/duowb/changelogitlab/commit/312f796)
      - Use \`<sup>\` for author info - by **Anthony Fu** [<samp>(b51c0)</samp>](https://github.com/duowb/changelogitlab/commit/b51c075)
@@ -63,10 +63,10 @@ it('parse', async () => {
 
     ### Bug Fixes
 
-    - Use \`creatordate\` to sort tags - by **Frost Ming** in https://github.com/duowb/changelogitlab/issues/17 [<samp>(5666d)</samp>](https://github.com/duowb/changelogitlab/commit/5666d8d)
+    - Use \`creatordate\` to sort tags - by **Frost Ming** in [#17](https://github.com/duowb/changelogitlab/pull/17) [<samp>(5666d)</samp>](https://github.com/duowb/changelogitlab/commit/5666d8d)
     - Config defaults - by **Anthony Fu** [<samp>(9232f)</samp>](https://github.com/duowb/changelogitlab/commit/9232fdf)
     - Use \`replace\` instead of \`replaceAll\` for Node 14 - by **Anthony Fu** [<samp>(5154e)</samp>](https://github.com/duowb/changelogitlab/commit/5154e78)
-    - **cli**: Add missing \`--group\` option - by **Enzo Innocenzi** in https://github.com/duowb/changelogitlab/issues/21 [<samp>(22800)</samp>](https://github.com/duowb/changelogitlab/commit/228001d)
+    - **cli**: Add missing \`--group\` option - by **Enzo Innocenzi** in [#21](https://github.com/duowb/changelogitlab/pull/21) [<samp>(22800)</samp>](https://github.com/duowb/changelogitlab/commit/228001d)
     - **style**: Revert \`<sup>\` style - by **Anthony Fu** [<samp>(742ae)</samp>](https://github.com/duowb/changelogitlab/commit/742ae0b)
 
     ##### [View changes](https://github.com/duowb/changelogitlab/compare/19cf4f84f16f1a8e1e7032bbef550c382938649d...49b0222e8d60b7f299941def7511cee0460a8149)"
@@ -0,0 +1,124 @@
+import type { ChangelogOptions } from '../src/types'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { hasTagOnGitea, sendRelease, uploadAssets } from '../src/gitea'
+import { createSession } from '../src/session'
+import { giteaUrls } from '../src/urls'
+
+const options: ChangelogOptions = {
+  baseUrl: 'https://gitea.example.com',
+  baseUrlApi: 'https://gitea.example.com/api/v1',
+  repo: 'owner/app',
+  releaseRepo: 'owner/releases',
+  token: 't',
+  from: 'v1.0.0',
+  to: 'v1.1.0',
+}
+
+const api = 'https://gitea.example.com/api/v1/repos'
+
+function createFakeSession(respond: (method: string, url: string) => any) {
+  const requests: { method: string, url: string, init?: any }[] = []
+  const session = createSession(options, {
+    request: async (url: string, init?: any) => {
+      const method = init?.method || 'GET'
+      requests.push({ method, url, init })
+      return respond(method, url)
+    },
+  })
+  return { requests, session }
+}
+
+function httpError(status: number) {
+  return Object.assign(new Error(String(status)), { response: { status } })
+}
+
+describe('gitea releases', () => {
+  it('creates the release when none exists', async () => {
+    const { requests, session } = createFakeSession((method) => {
+      if (method === 'GET')
+        throw httpError(404)
+      return { html_url: 'https://gitea.example.com/owner/releases/releases/tag/v1.1.0' }
+    })
+    expect(await sendRelease(options, 'Notes', session)).toBe('https://gitea.example.com/owner/releases/releases/tag/v1.1.0')
+    expect(requests.map(r => `${r.method} ${r.url}`)).toEqual([
+      `GET ${api}/owner/releases/releases/tags/v1.1.0`,
+      `POST ${api}/owner/releases/releases`,
+    ])
+    expect(JSON.parse(requests[1].init.body)).toMatchObject({ body: 'Notes', tag_name: 'v1.1.0', draft: false })
+  })
+
+  it('updates the release when it exists', async () => {
+    const { requests, session } = createFakeSession(method => method === 'GET'
+      ? { id: 7, html_url: '' }
+      : { html_url: 'https://gitea.example.com/owner/releases/releases/tag/v1.1.0' })
+    await sendRelease(options, 'Notes', session)
+    expect(requests.map(r => `${r.method} ${r.url}`)).toEqual([
+      `GET ${api}/owner/releases/releases/tags/v1.1.0`,
+      `PATCH ${api}/owner/releases/releases/7`,
+    ])
+  })
+
+  it('does not create a duplicate when the lookup fails', async () => {
+    const { requests, session } = createFakeSession(() => {
+      throw httpError(401)
+    })
+    await expect(sendRelease(options, 'Notes', session)).rejects.toThrow('401')
+    expect(requests).toHaveLength(1)
+  })
+})
+
+describe('gitea tags', () => {
+  it('checks tags on `repo`', async () => {
+    const { requests, session } = createFakeSession(() => ({ name: 'v1.1.0' }))
+    expect(await hasTagOnGitea('@scope/core@1.1.0', options, session)).toBe(true)
+    expect(requests[0].url).toBe(`${api}/owner/app/tags/%40scope%2Fcore%401.1.0`)
+  })
+
+  it('returns false on 404 only', async () => {
+    const missing = createFakeSession(() => {
+      throw httpError(404)
+    })
+    expect(await hasTagOnGitea('v1.1.0', options, missing.session)).toBe(false)
+
+    const unauthorized = createFakeSession(() => {
+      throw httpError(401)
+    })
+    await expect(hasTagOnGitea('v1.1.0', options, unauthorized.session)).rejects.toThrow('401')
+  })
+})
+
+describe('gitea assets', () => {
+  let dir = ''
+
+  afterEach(async () => {
+    if (dir)
+      await rm(dir, { recursive: true, force: true })
+  })
+
+  it('uploads each file as a multipart `attachment`', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'changelogits-assets-'))
+    await writeFile(join(dir, 'app.zip'), 'zip')
+    const { requests, session } = createFakeSession(method => method === 'GET' ? { id: 7 } : {})
+
+    await uploadAssets(options, join(dir, 'app.zip'), session)
+
+    const upload = requests.at(-1)!
+    expect(upload.method).toBe('POST')
+    expect(upload.url).toBe(`${api}/owner/releases/releases/7/assets?name=app.zip`)
+    const file = (upload.init.body as FormData).get('attachment') as Blob & { name: string }
+    expect(file.name).toBe('app.zip')
+    expect(await file.text()).toBe('zip')
+  })
+})
+
+describe('gitea urls', () => {
+  it('links pull requests, issues and comparisons', () => {
+    expect(giteaUrls.pullRequest(options, '12')).toBe('https://gitea.example.com/owner/app/pulls/12')
+    expect(giteaUrls.pullRequest(options, '3', 'other/lib')).toBe('https://gitea.example.com/other/lib/pulls/3')
+    expect(giteaUrls.issue(options, '12')).toBe('https://gitea.example.com/owner/app/issues/12')
+    expect(giteaUrls.compare(options)).toBe('https://gitea.example.com/owner/app/compare/v1.0.0...v1.1.0')
+  })
+})
@@ -0,0 +1,128 @@
+import type { AddressInfo } from 'node:net'
+import type { Commit } from '../src/types'
+import { createServer } from 'node:http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { createTagOnGitHub, resolveAuthors, sendRelease } from '../src/github'
+import { createSession } from '../src/session'
+
+const requests: string[] = []
+const server = createServer((req, res) => {
+  requests.push(`${req.method} ${req.url}`)
+  if (req.url === '/api/graphql') {
+    res.writeHead(404)
+    return res.end()
+  }
+  if (req.url === '/graphql') {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+      const { variables } = JSON.parse(body)
+      const repository: Record<string, any> = {}
+      for (const [key, hash] of Object.entries(variables)) {
+        if (key.startsWith('c'))
+          repository[key] = { author: { user: hash === 'bbbbbbb' ? null : { login: `user-${hash}` } } }
+      }
+      res.writeHead(200, { 'content-type': 'application/json' })
+      res.end(JSON.stringify({ data: { repository } }))
+    })
+    return
+  }
+  const commit = req.url?.match(/\/commits\/(\w+)$/)
+  res.writeHead(200, { 'content-type': 'application/json' })
+  res.end(JSON.stringify(commit ? { author: { login: `rest-${commit[1]}` } } : { items: [] }))
+})
+let baseUrl = ''
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+  server.close()
+})
+
+function commitBy(name: string, hash: string) {
+  return { shortHash: hash, authors: [{ name, email: `${name}@example.com` }] } as Commit
+}
+
+const commits = [commitBy('alice', 'aaaaaaa'), commitBy('bob', 'bbbbbbb')]
+
+describe('github resolveAuthors', () => {
+  it('resolves logins in batched GraphQL queries', async () => {
+    requests.length = 0
+    const authors = await resolveAuthors(commits, { baseUrlApi: baseUrl, repo: 'o/r', token: 't', cache: false })
+    expect(authors.map(a => a.login)).toEqual(['rest-bbbbbbb', 'user-aaaaaaa'])
+    expect(requests.filter(r => r === 'POST /graphql')).toHaveLength(1)
+    // only the author without a GitHub user in GraphQL goes through REST
+    expect(requests.filter(r => r.includes('/commits/'))).toEqual(['GET /repos/o/r/commits/bbbbbbb'])
+  })
+
+  it('falls back to REST without GraphQL', async () => {
+    requests.length = 0
+    const authors = await resolveAuthors(commits, { baseUrlApi: `${baseUrl}/api/v3`, repo: 'o/r', token: 't', cache: false })
+    expect(authors.map(a => a.login)).toEqual(['rest-aaaaaaa', 'rest-bbbbbbb'])
+    expect(requests).toContain('POST /api/graphql')
+  })
+})
+
+describe('github createTag', () => {
+  const options = { baseUrlApi: 'https://api.github.com', repo: 'o/r', token: 't' }
+
+  function createFakeSession() {
+    const calls: { url: string, body: any }[] = []
+    const session = createSession(options, {
+      request: async (url: string, init?: any) => {
+        calls.push({ url, body: JSON.parse(init.body) })
+        return { sha: 'tagobject' } as any
+      },
+    })
+    return { calls, session }
+  }
+
+  it('creates a lightweight tag with a ref to the commit', async () => {
+    const { calls, session } = createFakeSession()
+    await createTagOnGitHub('v1.1.0', 'abcdef1234567890', undefined, options, session)
+    expect(calls).toEqual([
+      { url: 'https://api.github.com/repos/o/r/git/refs', body: { ref: 'refs/tags/v1.1.0', sha: 'abcdef1234567890' } },
+    ])
+  })
+
+  it('creates an annotated tag object before the ref', async () => {
+    const { calls, session } = createFakeSession()
+    await createTagOnGitHub('v1.1.0', 'abcdef1234567890', 'Notes', options, session)
+    expect(calls).toEqual([
+      { url: 'https://api.github.com/repos/o/r/git/tags', body: { tag: 'v1.1.0', message: 'Notes', object: 'abcdef1234567890', type: 'commit' } },
+      { url: 'https://api.github.com/repos/o/r/git/refs', body: { ref: 'refs/tags/v1.1.0', sha: 'tagobject' } },
+    ])
+  })
+})
+
+describe('github sendRelease', () => {
+  const options = { baseUrlApi: 'https://api.github.com', repo: 'o/r', releaseRepo: 'o/r', token: 't', to: 'v1.0.0' }
+
+  function createFakeSession(status: number) {
+    const methods: string[] = []
+    const session = createSession(options, {
+      request: async (_url: string, init?: any) => {
+        methods.push(init?.method || 'GET')
+        if (!init?.method)
+          throw Object.assign(new Error(String(status)), { response: { status } })
+        return { html_url: 'https://github.com/o/r/releases/tag/v1.0.0' } as any
+      },
+    })
+    return { methods, session }
+  }
+
+  it('creates the release when none exists', async () => {
+    const { methods, session } = createFakeSession(404)
+    await sendRelease(options, 'Notes', session)
+    expect(methods).toEqual(['GET', 'POST'])
+  })
+
+  it('does not create a duplicate when the lookup fails', async () => {
+    const { methods, session } = createFakeSession(401)
+    await expect(sendRelease(options, 'Notes', session)).rejects.toThrow('401')
+    expect(methods).toEqual(['GET'])
+  })
+})
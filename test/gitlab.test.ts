@@ -0,0 +1,192 @@
+import type { ChangelogOptions } from '../src/types'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { AuthError } from '../src/auth'
+import { createTagOnGitLab, getAssetLinkType, getProjectId, hasTagOnGitLab, resolvePullRequests, sendRelease, uploadAssets } from '../src/gitlab'
+import { createSession } from '../src/session'
+
+const options: ChangelogOptions = {
+  baseUrlApi: 'https://gitlab.example.com/api/v4',
+  repo: 'group/app',
+  releaseRepo: 'group/releases',
+  token: 't',
+}
+
+function createFakeSession() {
+  const calls: string[] = []
+  const session = createSession(options, {
+    request: async (url: string) => {
+      calls.push(url)
+      return { id: url.endsWith('group%2Fapp') ? 1 : 2 } as any
+    },
+  })
+  return { calls, session }
+}
+
+describe('gitlab session', () => {
+  it('resolves project ids once per project path', async () => {
+    const { calls, session } = createFakeSession()
+    const ids = await Promise.all([
+      getProjectId(options, 'group/app', session),
+      getProjectId(options, 'group/app', session),
+      getProjectId(options, 'group/releases', session),
+    ])
+    expect(ids).toEqual([1, 1, 2])
+    expect(calls).toHaveLength(2)
+  })
+
+  it('checks tags on `repo` rather than `releaseRepo`', async () => {
+    const { calls, session } = createFakeSession()
+    expect(await hasTagOnGitLab('v1.0.0', options, session)).toBe(true)
+    expect(calls.at(-1)).toBe('https://gitlab.example.com/api/v4/projects/1/repository/tags/v1.0.0')
+  })
+
+  it('encodes scoped package tags', async () => {
+    const { calls, session } = createFakeSession()
+    expect(await hasTagOnGitLab('@scope/core@1.2.0', options, session)).toBe(true)
+    expect(calls.at(-1)).toBe('https://gitlab.example.com/api/v4/projects/1/repository/tags/%40scope%2Fcore%401.2.0')
+
+    const requests: string[] = []
+    const releaseSession = createSession(options, {
+      request: async (url: string) => {
+        requests.push(url)
+        return { id: 2, _links: { self: 'https://gitlab.example.com/group/releases/-/releases/%40scope%2Fcore%401.2.0' } } as any
+      },
+    })
+    await sendRelease({ ...options, to: '@scope/core@1.2.0' }, 'notes', releaseSession)
+    expect(requests.slice(1)).toEqual([
+      'https://gitlab.example.com/api/v4/projects/2/releases/%40scope%2Fcore%401.2.0',
+      'https://gitlab.example.com/api/v4/projects/2/releases/%40scope%2Fcore%401.2.0',
+    ])
+  })
+
+  it('creates annotated tags on `repo`', async () => {
+    const requests: { url: string, init?: any }[] = []
+    const session = createSession(options, {
+      request: async (url: string, init?: any) => {
+        requests.push({ url, init })
+        return { id: 1 } as any
+      },
+    })
+    await createTagOnGitLab('v1.1.0', 'abcdef1234567890', 'Notes', options, session)
+    expect(requests.at(-1)!.url).toBe('https://gitlab.example.com/api/v4/projects/1/repository/tags')
+    expect(JSON.parse(requests.at(-1)!.init.body)).toEqual({ tag_name: 'v1.1.0', ref: 'abcdef1234567890', message: 'Notes' })
+  })
+
+  it('does not share lookups between sessions', async () => {
+    const first = createFakeSession()
+    const second = createFakeSession()
+    await getProjectId(options, 'group/app', first.session)
+    await getProjectId(options, 'group/app', second.session)
+    expect(first.calls).toHaveLength(1)
+    expect(second.calls).toHaveLength(1)
+  })
+})
+
+describe('gitlab job token', () => {
+  const jobOptions: ChangelogOptions = { ...options, authType: 'job-token' }
+
+  it('sends the token as `JOB-TOKEN`', async () => {
+    const headers: any[] = []
+    const session = createSession(jobOptions, {
+      request: async (_url: string, init?: any) => {
+        headers.push(init?.headers)
+        return { _links: { self: 'https://gitlab.example.com/group/releases/-/releases/v1.0.0' } } as any
+      },
+    })
+    vi.stubEnv('GITLAB_PROJECT_ID', '2')
+    await sendRelease({ ...jobOptions, to: 'v1.0.0' }, 'notes', session)
+    vi.unstubAllEnvs()
+    expect(headers.every(h => h['JOB-TOKEN'] === 't' && !h['PRIVATE-TOKEN'])).toBe(true)
+  })
+
+  it('fails clearly on endpoints job tokens can not call', async () => {
+    const { session } = createFakeSession()
+    await expect(resolvePullRequests([], jobOptions, session)).rejects.toThrow(AuthError)
+    await expect(getProjectId(jobOptions, 'group/app', session)).rejects.toThrow('GitLab CI job tokens can not look up the id of group/app')
+    await expect(createTagOnGitLab('v1.1.0', 'abcdef1', undefined, jobOptions, session)).rejects.toThrow('GitLab CI job tokens can not create tags')
+  })
+})
+
+describe('gitlab assets', () => {
+  const assetOptions: ChangelogOptions = { ...options, baseUrl: 'https://gitlab.example.com', to: 'app/v1.0.0' }
+  const api = 'https://gitlab.example.com/api/v4/projects/2'
+  const linksUrl = `${api}/releases/app%2Fv1.0.0/assets/links`
+  let dir = ''
+
+  async function createAssets(...names: string[]) {
+    dir = await mkdtemp(join(tmpdir(), 'changelogits-assets-'))
+    for (const name of names)
+      await writeFile(join(dir, name), name)
+    return names.map(name => join(dir, name))
+  }
+
+  afterEach(async () => {
+    if (dir)
+      await rm(dir, { recursive: true, force: true })
+  })
+
+  function createAssetSession(upload: any = {}) {
+    const requests: { method: string, url: string, init?: any }[] = []
+    const session = createSession(assetOptions, {
+      request: async (url: string, init?: any) => {
+        const method = init?.method || 'GET'
+        requests.push({ method, url, init })
+        if (url.endsWith('group%2Freleases'))
+          return { id: 2 } as any
+        if (url === linksUrl && method === 'GET')
+          return [{ id: 7, name: 'app.zip', url: 'https://old' }] as any
+        if (url.endsWith('/uploads'))
+          return upload
+        return {} as any
+      },
+    })
+    return { requests, session }
+  }
+
+  it('stores assets in the package registry and updates existing links', async () => {
+    const { requests, session } = createAssetSession()
+    await uploadAssets(assetOptions, await createAssets('app.zip', 'notes.png'), session)
+
+    const packageUrl = `${api}/packages/generic/release-assets/app-v1.0.0`
+    const uploads = requests.filter(r => r.method === 'PUT' && r.url.startsWith(packageUrl))
+    expect(uploads.map(r => r.url)).toEqual([`${packageUrl}/app.zip`, `${packageUrl}/notes.png`])
+    expect(uploads[0].init.headers['Content-Type']).toBe('application/octet-stream')
+
+    const links = requests.filter(r => r.url.startsWith(linksUrl) && r.method !== 'GET')
+    expect(links.map(r => [r.method, r.url, JSON.parse(r.init.body)])).toEqual([
+      ['PUT', `${linksUrl}/7`, { name: 'app.zip', url: `${packageUrl}/app.zip`, direct_asset_path: '/app.zip', link_type: 'package' }],
+      ['POST', linksUrl, { name: 'notes.png', url: `${packageUrl}/notes.png`, direct_asset_path: '/notes.png', link_type: 'image' }],
+    ])
+  })
+
+  it('stores assets in the project uploads', async () => {
+    const { requests, session } = createAssetSession({ url: '/uploads/abc/notes.txt', full_path: '/-/project/2/uploads/abc/notes.txt' })
+    await uploadAssets({ ...assetOptions, gitlabAssetsTarget: 'uploads', gitlabPackageName: 'unused' }, await createAssets('notes.txt'), session)
+
+    expect(requests.some(r => r.url.includes('/packages/generic/'))).toBe(false)
+    expect(requests.find(r => r.url === `${api}/uploads`)!.init.body).toBeInstanceOf(FormData)
+    expect(JSON.parse(requests.at(-1)!.init.body)).toEqual({
+      name: 'notes.txt',
+      url: 'https://gitlab.example.com/-/project/2/uploads/abc/notes.txt',
+      direct_asset_path: '/notes.txt',
+      link_type: 'other',
+    })
+  })
+
+  it('builds upload links of older versions from the project path', async () => {
+    const { requests, session } = createAssetSession({ url: '/uploads/abc/notes.txt' })
+    await uploadAssets({ ...assetOptions, gitlabAssetsTarget: 'uploads' }, await createAssets('notes.txt'), session)
+    expect(JSON.parse(requests.at(-1)!.init.body).url).toBe('https://gitlab.example.com/group/releases/uploads/abc/notes.txt')
+  })
+
+  it('infers the link type from the file extension', () => {
+    expect(getAssetLinkType(options, 'app-1.0.0.tar.gz')).toBe('package')
+    expect(getAssetLinkType(options, 'screenshot.JPG')).toBe('image')
+    expect(getAssetLinkType(options, 'checksums.txt')).toBe('other')
+    expect(getAssetLinkType({ ...options, gitlabAssetLinkType: 'runbook' }, 'app.zip')).toBe('runbook')
+    expect(getAssetLinkType({ ...options, gitlabAssetLinkType: name => name.endsWith('.md') ? 'runbook' : 'other' }, 'deploy.md')).toBe('runbook')
+  })
+})
@@ -0,0 +1,81 @@
+import type { AddressInfo } from 'node:net'
+import { createServer } from 'node:http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { $request, mapWithConcurrency } from '../src/http'
+
+let hits = 0
+const server = createServer((req, res) => {
+  hits++
+  if (req.url === '/flaky' && hits === 1) {
+    res.writeHead(503)
+    return res.end()
+  }
+  if (req.url === '/rate-limited' && hits === 1) {
+    res.writeHead(429, { 'retry-after': '0' })
+    return res.end()
+  }
+  if (req.url === '/missing') {
+    res.writeHead(404)
+    return res.end()
+  }
+  res.writeHead(200, { 'content-type': 'application/json' })
+  res.end(JSON.stringify({ ok: true }))
+})
+let baseUrl = ''
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('$request', () => {
+  it('retries on 5xx', async () => {
+    hits = 0
+    expect(await $request(`${baseUrl}/flaky`)).toEqual({ ok: true })
+    expect(hits).toBe(2)
+  })
+
+  it('honours Retry-After on 429', async () => {
+    hits = 0
+    expect(await $request(`${baseUrl}/rate-limited`)).toEqual({ ok: true })
+    expect(hits).toBe(2)
+  })
+
+  it('does not re-send a POST on 5xx', async () => {
+    hits = 0
+    await expect($request(`${baseUrl}/flaky`, { method: 'POST', body: {} })).rejects.toThrow('503')
+    expect(hits).toBe(1)
+  })
+
+  it('re-sends a POST on 429 with Retry-After', async () => {
+    hits = 0
+    expect(await $request(`${baseUrl}/rate-limited`, { method: 'POST', body: {} })).toEqual({ ok: true })
+    expect(hits).toBe(2)
+  })
+
+  it('does not retry on 404', async () => {
+    hits = 0
+    await expect($request(`${baseUrl}/missing`)).rejects.toThrow('404')
+    expect(hits).toBe(1)
+  })
+})
+
+describe('mapWithConcurrency', () => {
+  it('limits pending promises and keeps the order', async () => {
+    let pending = 0
+    let maxPending = 0
+    const result = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (i) => {
+      pending++
+      maxPending = Math.max(maxPending, pending)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      pending--
+      return i * 2
+    })
+    expect(result).toEqual([2, 4, 6, 8, 10])
+    expect(maxPending).toBe(2)
+  })
+})
@@ -0,0 +1,129 @@
+import type { RawGitCommit } from 'changelogen'
+import type { ResolvedChangelogOptions } from '../src'
+import { describe, expect, it } from 'vitest'
+import { buildNotificationBody, generateMarkdown, localizeTitles, parseCommits, resolveMessages } from '../src'
+
+function createCommit(message: string, shortHash: string, name = 'Jane Doe'): RawGitCommit {
+  return {
+    message,
+    body: '',
+    shortHash,
+    author: { name, email: `${name.split(' ')[0].toLowerCase()}@example.com` },
+  }
+}
+
+function createOptions(options: Partial<ResolvedChangelogOptions>) {
+  const config = {
+    scopeMap: {},
+    types: {
+      feat: { title: '🚀 Features' },
+      fix: { title: '🐞 Bug Fixes' },
+    },
+    titles: { breakingChanges: '🚨 Breaking Changes' },
+    capitalize: true,
+    group: true,
+    emoji: true,
+    from: 'v1.0.0',
+    to: 'v1.1.0',
+    repoProvider: 'github',
+    baseUrl: 'https://github.com',
+    repo: 'owner/repo',
+    ...options,
+  } as ResolvedChangelogOptions
+  // as done by `resolveConfig`
+  return { ...config, ...localizeTitles(config) } as ResolvedChangelogOptions
+}
+
+function generate(options: Partial<ResolvedChangelogOptions>) {
+  const config = createOptions(options)
+  const commits = parseCommits([
+    createCommit('feat: add option (#56)', 'aaaaaaa'),
+    createCommit('fix: closes #12, #13 and #14', 'bbbbbbb'),
+  ], config)
+  for (const commit of commits)
+    commit.resolvedAuthors = [{ name: 'Jane Doe', email: 'jane@example.com', commits: [] }, { name: 'John Roe', email: 'john@example.com', commits: [] }]
+  return generateMarkdown(commits, config)
+}
+
+describe('locales', () => {
+  it('generates english notes by default', () => {
+    const md = generate({})
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🚀 Features')
+    expect(md).toContain('by **Jane Doe** and **John Roe** in [#56](https://github.com/owner/repo/pull/56)')
+    expect(md).toContain('[View changes](https://github.com/owner/repo/compare/v1.0.0...v1.1.0)')
+  })
+
+  it('generates chinese notes', () => {
+    const md = generate({ locale: 'zh-CN' })
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🚀 新功能')
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🐞 问题修复')
+    expect(md).toContain('由 **Jane Doe** 和 **John Roe** 提交 见 [#56](https://github.com/owner/repo/pull/56)')
+    expect(md).toContain('[#12](https://github.com/owner/repo/issues/12)、[#13](https://github.com/owner/repo/issues/13) 和 [#14]')
+    expect(md).toContain('[查看变更](https://github.com/owner/repo/compare/v1.0.0...v1.1.0)')
+  })
+
+  it('joins japanese lists without a final conjunction', () => {
+    const md = generate({ locale: 'ja' })
+    expect(md).toContain('**Jane Doe**、**John Roe** による')
+    expect(md).toContain('[#13](https://github.com/owner/repo/issues/13)、[#14]')
+  })
+
+  it('translates the sections of the keep-a-changelog style', () => {
+    const md = generate({ locale: 'zh-CN', style: 'keep-a-changelog' })
+    expect(md).toContain('### 新增')
+    expect(md).toContain('### 修复')
+  })
+
+  it('says there are no changes in the locale', () => {
+    const config = createOptions({ locale: 'ja', style: 'plain' })
+    expect(generateMarkdown([], config)).toContain('大きな変更はありません')
+  })
+
+  it('generates bilingual titles and links', () => {
+    const md = generate({ locale: ['en', 'zh-CN'] })
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🚀 Features / 新功能')
+    expect(md).toContain('[View changes / 查看变更]')
+    // the text within a line follows the first locale
+    expect(md).toContain('by **Jane Doe** and **John Roe**')
+    expect(resolveMessages({ locale: 'zh-CN,en' }).titles.fix).toBe('🐞 问题修复 / Bug Fixes')
+  })
+
+  it('keeps custom titles', () => {
+    const md = generate({ locale: 'zh-CN', types: { feat: { title: '✨ 特性' }, fix: { title: '🐞 Bug Fixes' } } })
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;✨ 特性')
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🐞 问题修复')
+  })
+
+  it('overrides and adds messages from the config', () => {
+    const md = generate({
+      locale: 'zh-CN',
+      messages: {
+        'zh-CN': { viewChanges: '比较', titles: { feat: '🚀 特性' } },
+      },
+    })
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🚀 特性')
+    expect(md).toContain('### &nbsp;&nbsp;&nbsp;🐞 问题修复')
+    expect(md).toContain('[比较](')
+
+    const fr = resolveMessages({ locale: 'fr', messages: { fr: { viewChanges: 'Voir les changements' } } })
+    expect(fr.viewChanges).toBe('Voir les changements')
+    expect(fr.noChanges).toBe('No significant changes')
+  })
+
+  it('rejects unknown locales', () => {
+    expect(() => resolveMessages({ locale: 'xx' })).toThrow('Unknown locale: xx')
+  })
+
+  it('translates the links of notifications', () => {
+    const body = buildNotificationBody({ type: 'mattermost', url: 'https://chat.example.com', maxLength: 5 }, {
+      title: 'owner/repo v1.1.0',
+      tag: 'v1.1.0',
+      repo: 'owner/repo',
+      md: '- A\n- B\n- C',
+      url: 'https://github.com/owner/repo/releases/tag/v1.1.0',
+      compareUrl: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+      messages: resolveMessages({ locale: 'ja' }),
+    })
+    expect(body.text).toContain('[リリースノート全文](https://github.com/owner/repo/releases/tag/v1.1.0)')
+  })
+})
@@ -0,0 +1,226 @@
+import type { RawGitCommit } from 'changelogen'
+import type { ResolvedChangelogOptions } from '../src'
+import { describe, expect, it } from 'vitest'
+import { generateMarkdown, parseCommits } from '../src'
+
+function createCommit(message: string, shortHash: string): RawGitCommit {
+  return {
+    message,
+    body: '',
+    shortHash,
+    author: { name: 'Jane Doe', email: 'jane@example.com' },
+  }
+}
+
+function createOptions(options: Partial<ResolvedChangelogOptions>) {
+  return {
+    scopeMap: {},
+    types: {
+      feat: { title: '🚀 Features' },
+      fix: { title: '🐞 Bug Fixes' },
+    },
+    titles: { breakingChanges: '🚨 Breaking Changes' },
+    capitalize: true,
+    group: true,
+    emoji: true,
+    from: 'v1.0.0',
+    to: 'v1.1.0',
+    ...options,
+  } as ResolvedChangelogOptions
+}
+
+const rawCommits = [
+  createCommit('feat: support merge requests (!34)', 'aaaaaaa'),
+  createCommit('fix: closes #12 and group/sub/proj#7', 'bbbbbbb'),
+]
+
+describe('references', () => {
+  it('renders GitLab merge requests, issues and cross-project references', () => {
+    const options = createOptions({
+      repoProvider: 'gitlab',
+      baseUrl: 'https://gitlab.com',
+      repo: 'group/project',
+    })
+    const md = generateMarkdown(parseCommits(rawCommits, options), options)
+
+    expect(md).toContain('Support merge requests &nbsp;-&nbsp; in [!34](https://gitlab.com/group/project/-/merge_requests/34)')
+    expect(md).toContain('in [#12](https://gitlab.com/group/project/-/issues/12) and [group/sub/proj#7](https://gitlab.com/group/sub/proj/-/issues/7)')
+    expect(md).toContain('(https://gitlab.com/group/project/-/commit/aaaaaaa)')
+  })
+
+  it('renders GitHub pull requests and issues', () => {
+    const options = createOptions({
+      repoProvider: 'github',
+      baseUrl: 'https://github.com',
+      repo: 'owner/repo',
+    })
+    const md = generateMarkdown(parseCommits([
+      createCommit('feat: add option (#56)', 'ccccccc'),
+      ...rawCommits,
+    ], options), options)
+
+    expect(md).toContain('Add option &nbsp;-&nbsp; in [#56](https://github.com/owner/repo/pull/56)')
+    // `!N` has no meaning on GitHub
+    expect(md).toContain('Support merge requests (!34)')
+    expect(md).toContain('in [#12](https://github.com/owner/repo/issues/12) and [group/sub/proj#7](https://github.com/group/sub/proj/issues/7)')
+  })
+})
+
+describe('labels', () => {
+  it('places entries in sections by label', () => {
+    const options = createOptions({
+      repoProvider: 'github',
+      baseUrl: 'https://github.com',
+      repo: 'owner/repo',
+      labels: {
+        sections: {
+          security: '🔒 Security',
+          breaking: 'breaking',
+          ux: 'feat',
+        },
+      },
+    })
+    const commits = parseCommits([
+      createCommit('fix: escape html', 'aaaaaaa'),
+      createCommit('fix: drop node 16', 'bbbbbbb'),
+      createCommit('fix: larger buttons', 'ccccccc'),
+    ], options)
+    commits[0].labels = ['security']
+    commits[1].labels = ['breaking']
+    commits[2].labels = ['ux']
+
+    const md = generateMarkdown(commits, options).replace(/&nbsp;/g, '')
+    expect(md.split('\n').filter(line => line.startsWith('### ') || line.startsWith('- '))).toEqual([
+      '### 🚨 Breaking Changes',
+      expect.stringContaining('- Drop node 16'),
+      '### 🔒 Security',
+      expect.stringContaining('- Escape html'),
+      '### 🚀 Features',
+      expect.stringContaining('- Larger buttons'),
+    ])
+  })
+})
+
+describe('templates', () => {
+  it('renders with overridden templates', () => {
+    const options = createOptions({
+      repoProvider: 'gitlab',
+      baseUrl: 'https://gitlab.com',
+      repo: 'group/project',
+      releaseTemplates: {
+        title: section => `## ${section.kind === 'type' ? section.key : section.title}`,
+        entry: entry => [
+          entry.description,
+          ...entry.references.map(ref => `(${ref.url})`),
+          ...entry.authors.map(author => `@${author.login}`),
+        ].join(' '),
+        footer: notes => `${notes.from}...${notes.to}`,
+      },
+    })
+    const commits = parseCommits(rawCommits, options)
+    commits[0].resolvedAuthors = [{ name: 'Jane Doe', login: 'jane', email: 'jane@example.com', commits: [] }]
+
+    expect(generateMarkdown(commits, options)).toBe([
+      '## feat',
+      '',
+      '- Support merge requests (https://gitlab.com/group/project/-/merge_requests/34) @jane',
+      '',
+      '## fix',
+      '',
+      '- Closes #12 and group/sub/proj#7 (https://gitlab.com/group/project/-/issues/12) (https://gitlab.com/group/sub/proj/-/issues/7)',
+      '',
+      'v1.0.0...v1.1.0',
+    ].join('\n'))
+  })
+
+  it('passes structured release notes to the document template', () => {
+    const options = createOptions({
+      repoProvider: 'github',
+      group: 'multiple',
+      releaseTemplates: {
+        document: notes => JSON.stringify(notes.sections.map(section => ({
+          title: section.title,
+          scopes: section.scopes.map(scope => [scope.title, scope.nested, scope.entries.map(entry => entry.description)]),
+        }))),
+      },
+    })
+    const md = generateMarkdown(parseCommits([
+      createCommit('feat(ui): newest', 'aaaaaaa'),
+      createCommit('feat(ui): oldest', 'bbbbbbb'),
+      createCommit('feat(core): single', 'ccccccc'),
+    ], options), options)
+
+    expect(JSON.parse(md)).toEqual([{
+      title: '🚀 Features',
+      scopes: [
+        ['core', false, ['Single']],
+        ['ui', true, ['Oldest', 'Newest']],
+      ],
+    }])
+  })
+})
+
+describe('styles', () => {
+  const styleCommits = [
+    createCommit('feat(core): add cache (#5)', 'aaaaaaa'),
+    createCommit('refactor: tidy up', 'bbbbbbb'),
+    createCommit('perf: faster parsing', 'ccccccc'),
+    createCommit('chore!: drop node 16', 'ddddddd'),
+    createCommit('fix: closes #12', 'eeeeeee'),
+  ]
+
+  function render(style: ResolvedChangelogOptions['style']) {
+    const options = createOptions({
+      style,
+      repoProvider: 'github',
+      baseUrl: 'https://github.com',
+      repo: 'owner/repo',
+    })
+    return generateMarkdown(parseCommits(styleCommits, options), options)
+  }
+
+  it('maps commit types to Keep a Changelog sections', () => {
+    const md = render('keep-a-changelog')
+    expect(md.split('\n').filter(line => line.startsWith('### ') || line.startsWith('- '))).toEqual([
+      '### Added',
+      '- **core**: Add cache ([#5](https://github.com/owner/repo/pull/5), [aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))',
+      '### Changed',
+      '- **Breaking:** Drop node 16 ([ddddddd](https://github.com/owner/repo/commit/ddddddd))',
+      '- Faster parsing ([ccccccc](https://github.com/owner/repo/commit/ccccccc))',
+      '- Tidy up ([bbbbbbb](https://github.com/owner/repo/commit/bbbbbbb))',
+      '### Fixed',
+      '- Closes #12 ([#12](https://github.com/owner/repo/issues/12), [eeeeeee](https://github.com/owner/repo/commit/eeeeeee))',
+    ])
+  })
+
+  it('renders plain text without markdown', () => {
+    expect(render('plain')).toBe([
+      '🚨 Breaking Changes',
+      '-------------------',
+      '',
+      '- Drop node 16 [ddddddd]',
+      '',
+      '🚀 Features',
+      '-----------',
+      '',
+      '- core: Add cache (#5) [aaaaaaa]',
+      '',
+      '🐞 Bug Fixes',
+      '------------',
+      '',
+      '- Closes #12 (#12) [eeeeeee]',
+      '',
+      'View changes: https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+    ].join('\n'))
+  })
+
+  it('renders one line per commit', () => {
+    expect(render('compact').split('\n')).toEqual([
+      '- **chore!**: Drop node 16 ([ddddddd](https://github.com/owner/repo/commit/ddddddd))',
+      '- **feat(core)**: Add cache in [#5](https://github.com/owner/repo/pull/5) ([aaaaaaa](https://github.com/owner/repo/commit/aaaaaaa))',
+      '- **fix**: Closes #12 in [#12](https://github.com/owner/repo/issues/12) ([eeeeeee](https://github.com/owner/repo/commit/eeeeeee))',
+      '',
+      '[View changes](https://github.com/owner/repo/compare/v1.0.0...v1.1.0)',
+    ])
+  })
+})
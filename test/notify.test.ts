@@ -0,0 +1,109 @@
+import type { AddressInfo } from 'node:net'
+import type { ResolvedChangelogOptions } from '../src'
+import { createServer } from 'node:http'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { buildNotificationBody, createSession, sendNotifications, truncate } from '../src'
+
+const received: { url?: string, headers: Record<string, any>, body: any }[] = []
+const server = createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => body += chunk)
+  req.on('end', () => {
+    if (req.url === '/broken') {
+      res.writeHead(400)
+      return res.end()
+    }
+    received.push({ url: req.url, headers: req.headers, body: JSON.parse(body) })
+    res.writeHead(200, { 'content-type': 'text/plain' })
+    res.end('ok')
+  })
+})
+let baseUrl = ''
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => {
+  server.close()
+})
+
+const md = [
+  '### &nbsp;&nbsp;&nbsp;🚀 Features',
+  '',
+  '- **core**:',
+  '  - Add <details> &nbsp;-&nbsp; by @jane in [#5](https://github.com/owner/repo/pull/5) [<samp>(aaaaa)</samp>](https://github.com/owner/repo/commit/aaaaaaa)',
+].join('\n')
+
+const notification = {
+  title: 'owner/repo v1.1.0',
+  tag: 'v1.1.0',
+  repo: 'owner/repo',
+  md,
+  url: 'https://github.com/owner/repo/releases/tag/v1.1.0',
+  compareUrl: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+}
+
+describe('notification bodies', () => {
+  it('converts the notes to slack mrkdwn', () => {
+    expect(buildNotificationBody({ type: 'slack', url: '' }, notification).text).toBe([
+      '*<https://github.com/owner/repo/releases/tag/v1.1.0|owner/repo v1.1.0>*',
+      '',
+      '*🚀 Features*',
+      '',
+      '• *core*:',
+      '  • Add &lt;details&gt; - by @jane in <https://github.com/owner/repo/pull/5|#5> <https://github.com/owner/repo/commit/aaaaaaa|(aaaaa)>',
+    ].join('\n'))
+  })
+
+  it('keeps markdown for mattermost and teams', () => {
+    expect(buildNotificationBody({ type: 'mattermost', url: '' }, notification).text)
+      .toContain('### 🚀 Features\n\n- **core**:\n  - Add <details> - by @jane')
+    const card = (buildNotificationBody({ type: 'teams', url: '' }, notification) as any).attachments[0].content
+    expect(card.body[1].text.startsWith('**🚀 Features**\n\n- **core**:')).toBe(true)
+    expect(card.actions[0].url).toBe(notification.url)
+  })
+
+  it('cuts long notes at a line and links to the release', () => {
+    expect(truncate('a\nb\nc', 10)).toEqual({ text: 'a\nb\nc', truncated: false })
+    expect(truncate('line 1\nline 2\nline 3', 15)).toEqual({ text: 'line 1\nline 2\n…', truncated: true })
+
+    const { text } = buildNotificationBody({ type: 'mattermost', url: '', maxLength: 60 }, notification) as { text: string }
+    expect(text.endsWith('- **core**:\n…\n[Full release notes](https://github.com/owner/repo/releases/tag/v1.1.0)')).toBe(true)
+  })
+})
+
+describe('sendNotifications', () => {
+  it('posts to every target and skips the failing ones', async () => {
+    received.length = 0
+    const config = {
+      repo: 'owner/repo',
+      to: 'v1.1.0',
+      notifications: [
+        { type: 'webhook', url: `${baseUrl}/hook`, headers: { authorization: 'Bearer secret' } },
+        { type: 'slack', url: `${baseUrl}/broken` },
+        { type: 'slack', url: `${baseUrl}/slack`, channel: '#releases' },
+      ],
+    } as unknown as ResolvedChangelogOptions
+    const notified = await sendNotifications(config, {
+      md,
+      releaseLink: notification.url,
+      compareUrl: notification.compareUrl,
+    }, createSession(config))
+
+    expect(notified.map(target => target.url)).toEqual([`${baseUrl}/hook`, `${baseUrl}/slack`])
+    expect(received[0].headers.authorization).toBe('Bearer secret')
+    expect(received[0].body).toEqual({
+      event: 'release',
+      title: 'owner/repo v1.1.0',
+      tag: 'v1.1.0',
+      repo: 'owner/repo',
+      url: notification.url,
+      compareUrl: notification.compareUrl,
+      md,
+      truncated: false,
+    })
+    expect(received[1].body.channel).toBe('#releases')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { getProvider } from '../src/providers'
+import { defineProvider, getProvider } from '../src/providers'
 
 describe('providers', () => {
   it('should return GitHub provider for github', () => {
@@ -20,6 +20,73 @@ describe('providers', () => {
     expect(provider.uploadAssets).toBeDefined()
   })
 
+  it('should return Gitea provider for gitea', () => {
+    const provider = getProvider('gitea')
+    expect(provider).toBeDefined()
+    expect(provider.sendRelease).toBeDefined()
+    expect(provider.resolveAuthors).toBeDefined()
+    expect(provider.hasTag).toBeDefined()
+    expect(provider.uploadAssets).toBeDefined()
+  })
+
+  it('should return Bitbucket provider for bitbucket', () => {
+    const provider = getProvider('bitbucket')
+    expect(provider).toBeDefined()
+    expect(provider.sendRelease).toBeDefined()
+    expect(provider.resolveAuthors).toBeDefined()
+    expect(provider.hasTag).toBeDefined()
+    expect(provider.uploadAssets).toBeDefined()
+  })
+
+  it('should build Bitbucket Cloud and Data Center urls', () => {
+    const { urls } = getProvider('bitbucket')
+    const cloud = {
+      baseUrl: 'https://bitbucket.org',
+      baseUrlApi: 'https://api.bitbucket.org/2.0',
+      repo: 'workspace/repo',
+      releaseRepo: 'workspace/repo',
+      from: 'v1.0.0',
+      to: 'v1.1.0',
+    }
+    const server = {
+      ...cloud,
+      baseUrl: 'https://bitbucket.example.com',
+      baseUrlApi: 'https://bitbucket.example.com/rest/api/1.0',
+      repo: 'PROJ/repo',
+      releaseRepo: 'PROJ/repo',
+    }
+
+    expect(urls.commit(cloud, 'abc1234')).toBe('https://bitbucket.org/workspace/repo/commits/abc1234')
+    expect(urls.pullRequest(cloud, '12')).toBe('https://bitbucket.org/workspace/repo/pull-requests/12')
+    expect(urls.compare(cloud)).toBe('https://bitbucket.org/workspace/repo/branches/compare/v1.1.0%0Dv1.0.0#diff')
+    expect(urls.newRelease({ ...cloud, bitbucketRelease: 'downloads' }, '')).toBe('https://bitbucket.org/workspace/repo/downloads/')
+
+    expect(urls.commit(server, 'abc1234')).toBe('https://bitbucket.example.com/projects/PROJ/repos/repo/commits/abc1234')
+    expect(urls.issue(server, '12')).toBe('https://bitbucket.example.com/projects/PROJ/repos/repo/pull-requests/12')
+    expect(urls.compare(server)).toBe('https://bitbucket.example.com/projects/PROJ/repos/repo/compare/commits?sourceBranch=v1.1.0&targetBranch=v1.0.0')
+    expect(urls.newRelease(server, '')).toBe('https://bitbucket.example.com/projects/PROJ/repos/repo/browse?at=refs%2Ftags%2Fv1.1.0')
+  })
+
+  it('should return custom provider registered in config', () => {
+    const custom = defineProvider({
+      displayName: 'Forge',
+      sendRelease: async () => 'https://forge.example.com/releases/v1.0.0',
+      resolveAuthors: async () => [],
+      hasTag: async () => true,
+      uploadAssets: async () => {},
+      urls: {
+        commit: (options, hash) => `${options.baseUrl}/${options.repo}/c/${hash}`,
+        issue: (options, id) => `${options.baseUrl}/${options.repo}/i/${id}`,
+        pullRequest: (options, id) => `${options.baseUrl}/${options.repo}/p/${id}`,
+        compare: options => `${options.baseUrl}/${options.repo}/diff/${options.from}..${options.to}`,
+        newRelease: options => `${options.baseUrl}/${options.repo}/releases/new`,
+      },
+    })
+
+    expect(getProvider('forge', { forge: custom })).toBe(custom)
+    expect(() => getProvider('forge')).toThrow('Unsupported repository provider: forge')
+  })
+
   it('should throw error for unsupported provider', () => {
     expect(() => getProvider('unsupported')).toThrow('Unsupported repository provider: unsupported')
   })
@@ -0,0 +1,73 @@
+import type { RawGitCommit } from 'changelogen'
+import type { PullRequestInfo, ResolvedChangelogOptions } from '../src'
+import { describe, expect, it } from 'vitest'
+import { defineProvider, getProvider, parsePullRequests } from '../src'
+
+function createCommit(message: string, shortHash: string): RawGitCommit {
+  return {
+    message,
+    body: '',
+    shortHash,
+    author: { name: 'Jane Doe', email: 'jane@example.com' },
+  }
+}
+
+const pr: PullRequestInfo = {
+  number: 42,
+  title: 'Add dark mode',
+  body: '',
+  url: 'https://github.com/owner/repo/pull/42',
+  labels: ['enhancement'],
+  author: 'octocat',
+  mergeCommit: 'abcdef1234567',
+}
+
+const provider = defineProvider({
+  sendRelease: async () => '',
+  resolveAuthors: async () => [],
+  hasTag: async () => true,
+  uploadAssets: async () => {},
+  urls: getProvider('github').urls,
+  resolvePullRequests: async () => new Map([
+    ['aaaaaaa', pr],
+    ['bbbbbbb', pr],
+  ]),
+})
+
+const options = {
+  repoProvider: 'forge',
+  providers: { forge: provider },
+  scopeMap: {},
+  labelTypes: { enhancement: 'feat' },
+} as unknown as ResolvedChangelogOptions
+
+describe('parsePullRequests', () => {
+  it('builds one entry per pull request and keeps unassociated commits', async () => {
+    const { commits, dropped } = await parsePullRequests([
+      createCommit('wip', 'aaaaaaa'),
+      createCommit('fix: typo', 'bbbbbbb'),
+      createCommit('fix: standalone fix', 'ccccccc'),
+      createCommit('not conventional', 'ddddddd'),
+    ], options)
+
+    expect(commits.map(c => [c.type, c.description, c.shortHash])).toEqual([
+      ['feat', 'Add dark mode', 'abcdef1'],
+      ['fix', 'standalone fix', 'ccccccc'],
+    ])
+    expect(commits[0].references[0]).toEqual({ type: 'pull-request', value: '#42' })
+    expect(commits[0].resolvedAuthors?.map(a => a.login)).toEqual(['octocat'])
+    expect(dropped.map(c => `${c.hash}: ${c.reason}`)).toEqual([
+      'aaaaaaa: folded into #42',
+      'bbbbbbb: folded into #42',
+      'ddddddd: not a conventional commit',
+    ])
+  })
+
+  it('explains pull requests left out', async () => {
+    const { commits, dropped } = await parsePullRequests([createCommit('fix: typo', 'aaaaaaa')], { ...options, labelTypes: {} })
+    expect(commits).toEqual([])
+    expect(dropped.map(c => `${c.hash}: ${c.reason}`)).toEqual([
+      'aaaaaaa: part of #42, which has neither a conventional title nor a mapped label',
+    ])
+  })
+})
@@ -0,0 +1,133 @@
+import type { RawGitCommit } from 'changelogen'
+import type { ReleaseContext, ResolvedChangelogOptions } from '../src'
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { buildJsonPayload, buildReleaseNotes, createSession, JSON_PAYLOAD_SCHEMA_VERSION, parseCommits, performRelease, ReleaseExecutionError } from '../src'
+
+const schema = JSON.parse(readFileSync(new URL('../schema/json-payload.schema.json', import.meta.url), 'utf-8'))
+
+function createCommit(message: string, shortHash: string): RawGitCommit {
+  return {
+    message,
+    body: '',
+    shortHash,
+    author: { name: 'Jane Doe', email: 'jane@example.com' },
+  }
+}
+
+const config = {
+  scopeMap: {},
+  types: { feat: { title: '🚀 Features' } },
+  titles: { breakingChanges: '🚨 Breaking Changes' },
+  capitalize: true,
+  group: true,
+  from: 'v1.0.0',
+  to: 'v1.1.0',
+  repoProvider: 'github',
+  baseUrl: 'https://github.com',
+  repo: 'owner/repo',
+  releaseRepo: 'owner/repo',
+  prerelease: false,
+} as unknown as ResolvedChangelogOptions
+
+function createContext(): ReleaseContext {
+  const commits = parseCommits([
+    createCommit('feat(core)!: drop node 16', 'aaaaaaa'),
+    createCommit('feat: add cache (#5)', 'bbbbbbb'),
+    createCommit('chore: bump deps', 'ccccccc'),
+  ], config)
+  const jane = { name: 'Jane Doe', email: 'jane@example.com', login: 'jane', commits: ['aaaaaaa', 'bbbbbbb'] }
+  commits[0].resolvedAuthors = [jane]
+  commits[1].resolvedAuthors = [jane, { name: 'Bob', email: '', commits: ['bbbbbbb'] }]
+  return {
+    config,
+    md: '',
+    notes: buildReleaseNotes(commits, config),
+    commits,
+    dropped: [],
+    webUrl: '',
+    compareUrl: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+    session: undefined as any,
+  }
+}
+
+// checks `required`, `const`, `enum` and `additionalProperties`, enough to keep the schema in sync
+function validate(value: any, node: any, path = '$'): string[] {
+  if (node.$ref)
+    node = schema.$defs[node.$ref.split('/').pop()]
+  if ('const' in node)
+    return value === node.const ? [] : [`${path} is not ${node.const}`]
+  if (node.enum)
+    return node.enum.includes(value) ? [] : [`${path} is not one of ${node.enum}`]
+  if (node.type === 'array')
+    return Array.isArray(value) ? value.flatMap((item, i) => validate(item, node.items, `${path}[${i}]`)) : [`${path} is not an array`]
+  if (node.type === 'object') {
+    const errors = (node.required || []).filter((key: string) => !(key in value)).map((key: string) => `${path}.${key} is missing`)
+    for (const [key, item] of Object.entries(value)) {
+      if (node.properties[key])
+        errors.push(...validate(item, node.properties[key], `${path}.${key}`))
+      else if (node.additionalProperties === false)
+        errors.push(`${path}.${key} is not allowed`)
+    }
+    return errors
+  }
+  const type: string = typeof value
+  return type === (node.type === 'integer' ? 'number' : node.type) ? [] : [`${path} is not a ${node.type}`]
+}
+
+describe('json payload', () => {
+  it('includes commits, sections and contributors', () => {
+    const payload = buildJsonPayload(createContext(), '- md')
+
+    expect(payload.schemaVersion).toBe(JSON_PAYLOAD_SCHEMA_VERSION)
+    expect(payload.commits.map(c => [c.hash, c.type, c.isBreaking])).toEqual([
+      ['aaaaaaa', 'feat', true],
+      ['bbbbbbb', 'feat', false],
+      ['ccccccc', 'chore', false],
+    ])
+    expect(payload.commits[1].references).toEqual([
+      { type: 'pull-request', value: '#5', url: 'https://github.com/owner/repo/pull/5' },
+    ])
+    expect(payload.sections).toEqual([
+      { kind: 'breaking', key: 'breaking', title: '🚨 Breaking Changes', commits: ['aaaaaaa'] },
+      { kind: 'type', key: 'feat', title: '🚀 Features', commits: ['bbbbbbb'] },
+    ])
+    expect(payload.contributors).toEqual([
+      { name: 'Jane Doe', email: 'jane@example.com', login: 'jane' },
+      { name: 'Bob', email: undefined, login: undefined },
+    ])
+    expect(payload.release).toBeUndefined()
+  })
+
+  it('matches the published schema', () => {
+    const payload = buildJsonPayload(createContext(), '- md', {
+      outcome: 'released',
+      releaseLink: 'https://github.com/owner/repo/releases/tag/v1.1.0',
+    })
+
+    expect(payload.release).toEqual({ outcome: 'released', url: 'https://github.com/owner/repo/releases/tag/v1.1.0', assets: undefined })
+    expect(schema.properties.schemaVersion.const).toBe(JSON_PAYLOAD_SCHEMA_VERSION)
+    expect(validate(JSON.parse(JSON.stringify(payload)), schema)).toEqual([])
+  })
+})
+
+describe('create tag', () => {
+  it('does not tag another commit when `to` does not resolve', async () => {
+    const methods: string[] = []
+    const context = createContext()
+    context.config = { ...config, to: 'v0.0.0-missing', token: 't', createTag: true, baseUrlApi: 'https://api.github.com' }
+    context.session = createSession(context.config, {
+      request: async (_url: string, init?: any) => {
+        methods.push(init?.method || 'GET')
+        throw Object.assign(new Error('Not Found'), { response: { status: 404 } })
+      },
+    })
+
+    const error = await performRelease(context).catch(error => error)
+    expect(error).toBeInstanceOf(ReleaseExecutionError)
+    expect(error.code).toBe('MISSING_TAG')
+    expect(error.message).toContain('git tag v0.0.0-missing')
+    // only the lookup of the remote tag
+    expect(methods).toEqual(['GET'])
+  })
+})
@@ -0,0 +1,79 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { getCommitFiles, getPackageTags, getPackageTagTemplate, getWorkspacePackages } from '../src'
+
+let root = ''
+
+async function createWorkspace(files: Record<string, unknown>) {
+  root = await mkdtemp(join(tmpdir(), 'changelogits-workspace-'))
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(join(root, file, '..'), { recursive: true })
+    await writeFile(join(root, file), typeof content === 'string' ? content : JSON.stringify(content))
+  }
+  return root
+}
+
+afterEach(async () => {
+  if (root)
+    await rm(root, { recursive: true, force: true })
+})
+
+describe('workspace packages', () => {
+  it('reads pnpm workspaces', async () => {
+    await createWorkspace({
+      'pnpm-workspace.yaml': 'packages:\n  - \'packages/*\'\n  - "!packages/ignored" # not released\nonlyBuiltDependencies:\n  - esbuild\n',
+      'packages/core/package.json': { name: '@scope/core', version: '1.2.0' },
+      'packages/cli/package.json': { name: 'cli', version: '0.3.0' },
+      'packages/ignored/package.json': { name: 'ignored', version: '1.0.0' },
+      'packages/docs/package.json': { name: 'docs', private: true },
+      'packages/core/node_modules/dep/package.json': { name: 'dep', version: '1.0.0' },
+    })
+
+    expect(await getWorkspacePackages(root)).toEqual([
+      { name: 'cli', version: '0.3.0', dir: 'packages/cli' },
+      { name: '@scope/core', version: '1.2.0', dir: 'packages/core' },
+    ])
+  })
+
+  it('reads npm workspaces', async () => {
+    await createWorkspace({
+      'package.json': { private: true, workspaces: ['packages/a', 'tools/*'] },
+      'packages/a/package.json': { name: 'a', version: '1.0.0' },
+      'tools/b/package.json': { name: 'b', version: '2.0.0' },
+    })
+
+    expect((await getWorkspacePackages(root)).map(pkg => pkg.dir)).toEqual(['packages/a', 'tools/b'])
+  })
+
+  it('fails outside of a workspace', async () => {
+    await createWorkspace({ 'package.json': { name: 'single' } })
+    await expect(getWorkspacePackages(root)).rejects.toThrow('Can not find the workspace packages')
+  })
+})
+
+describe('package tags', () => {
+  it('replaces the package name', () => {
+    expect(getPackageTagTemplate({ name: '@scope/core' })).toBe('@scope/core@%s')
+    expect(getPackageTagTemplate({ name: 'cli' }, '{name}-v')).toBe('cli-v%s')
+  })
+
+  it('does not take root tags for package tags', () => {
+    const tags = ['v1.2.0', '1.3.0', '@scope/a@1.1.0', '@scope/ab@1.0.0', '@scope/b@2.0.0', '@scope/a@next']
+    expect(getPackageTags('@scope/a@%s', tags)).toEqual(['@scope/a@1.1.0'])
+    expect(getPackageTags('a.b-v%s', ['axb-v1.0.0', 'a.b-v1.0.0'])).toEqual(['a.b-v1.0.0'])
+  })
+})
+
+describe('commit files', () => {
+  it('reads the name-status lines of the commit body', () => {
+    const body = 'Some details\n\nM\tpackages/core/index.ts\nR100\tpackages/old/a.ts\tpackages/cli/a.ts\nA\tREADME.md\n'
+    expect(getCommitFiles({ message: 'feat: a', shortHash: 'aaaaaaa', author: { name: 'a', email: 'a' }, body })).toEqual([
+      'packages/core/index.ts',
+      'packages/old/a.ts',
+      'packages/cli/a.ts',
+      'README.md',
+    ])
+  })
+})